@@ -0,0 +1,386 @@
+import chalk, { Chalk } from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AotConfig, CONFIG_OPTIONS, engineSettings } from './config.js';
+import { AtomOfThoughtsServer, ToolResponse } from './engine.js';
+import { EXPORT_FORMATS, ExportFormat, exportGraph } from './export.js';
+import { AtomStore } from './persistence.js';
+import { formatPercent, renderTree } from './render.js';
+import { ReasoningSession, SessionManager } from './sessions.js';
+import { AtomGraphSnapshot, JournalEntry } from './types.js';
+
+export type CliCommand = 'serve' | 'replay' | 'validate' | 'render' | 'stats' | 'help';
+
+export const CLI_COMMANDS: CliCommand[] = ['serve', 'replay', 'validate', 'render', 'stats', 'help'];
+
+export const CLI_USAGE = `Usage: atom-of-thoughts [command] [options]
+
+Commands:
+  serve                          Start the MCP server (default)
+  replay <file> [--verbose] [--out <snapshot>]
+                                 Run recorded AoT/atomcommands calls and print each response
+  validate <file>                Check a snapshot or recording for invalid atoms and failing calls
+  render <file> [--format mermaid|dot|md|json|tree] [--engine full|light]
+                                 Print the graph of a snapshot or recording
+  stats <file> [--engine full|light]
+                                 Print a summary of the graph of a snapshot or recording
+  help                           Show this help
+
+Configuration (any command; overrides AOT_* variables and the config file):
+  --config <file>                JSON config file (also AOT_CONFIG)
+  --max-depth <n>, --light-max-depth <n>
+  --conclusion-threshold <0-1>, --auto-conclusion-threshold <0-1>, --conclusion-discount <0-1>
+  --lint-atoms, --no-lint-atoms
+  --tools <AoT,AoT-light,AoT-batch,atomcommands>
+  --log-level debug|info|warn|error|silent, --log-format pretty|json
+  --quiet, --no-color, --log-atoms, --no-log-atoms
+  --storage-dir <dir>, --snapshot-interval <n>
+  --transport stdio|http, --http-host <host>, --http-port <port>
+
+<file> is a session journal (*.journal.jsonl), a session snapshot (*.snapshot.json),
+a graph snapshot, or a JSON array of { "tool": ..., "arguments": ... } calls.`;
+
+export interface CliArguments {
+  command: CliCommand;
+  positionals: string[];
+  options: Record<string, string | true>;
+}
+
+// Options taking a value, and flags that may be given without one
+const VALUE_OPTIONS = [
+  'format', 'engine', 'out', 'config',
+  ...CONFIG_OPTIONS.filter(option => option.type !== 'boolean').map(option => option.flag),
+];
+const BOOLEAN_OPTIONS = [
+  'verbose',
+  ...CONFIG_OPTIONS.filter(option => option.type === 'boolean').flatMap(option => [option.flag, `no-${option.flag}`]),
+];
+
+export function parseCliArgs(argv: string[]): CliArguments {
+  const [first, ...rest] = argv;
+  let command: CliCommand = 'serve';
+  let args = argv;
+  if (first === '--help' || first === '-h') {
+    return { command: 'help', positionals: [], options: {} };
+  }
+  if (first !== undefined && !first.startsWith('-')) {
+    if (!CLI_COMMANDS.includes(first as CliCommand)) {
+      throw new Error(`Unknown command: ${first}`);
+    }
+    command = first as CliCommand;
+    args = rest;
+  }
+
+  const positionals: string[] = [];
+  const options: Record<string, string | true> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+    if (BOOLEAN_OPTIONS.includes(name)) {
+      options[name] = inlineValue ?? true;
+    } else if (!VALUE_OPTIONS.includes(name)) {
+      throw new Error(`Unknown option --${name}`);
+    } else if (inlineValue !== undefined) {
+      options[name] = inlineValue;
+    } else if (i + 1 < args.length && !args[i + 1].startsWith('--')) {
+      options[name] = args[++i];
+    } else {
+      throw new Error(`Option --${name} requires a value`);
+    }
+  }
+
+  return { command, positionals, options };
+}
+
+// Graphs and calls read from a file given on the command line
+export interface Recording {
+  full?: AtomGraphSnapshot;
+  light?: AtomGraphSnapshot;
+  sequence: number; // Last journal entry already contained in the graphs
+  entries: JournalEntry[];
+}
+
+export function readRecording(file: string): Recording {
+  if (!fs.existsSync(file)) {
+    throw new Error(`File ${file} not found`);
+  }
+
+  // Files of a session store are read together with their snapshot or journal counterpart
+  const stored = path.basename(file).match(/^(.*)\.(snapshot\.json|journal\.jsonl)$/);
+  if (stored) {
+    const store = new AtomStore(path.dirname(file));
+    const name = decodeURIComponent(stored[1]);
+    const snapshot = store.readSnapshot(name);
+    const sequence = snapshot ? snapshot.sequence : 0;
+    return {
+      full: snapshot?.full,
+      light: snapshot?.light,
+      sequence,
+      entries: store.readJournal(name, sequence),
+    };
+  }
+
+  const text = fs.readFileSync(file, 'utf8');
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // Not a single JSON document, so read it as one JSON call per line
+    data = text.split('\n').filter(line => line.trim()).map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid JSON in ${file} at line ${index + 1}`);
+      }
+    });
+  }
+
+  if (Array.isArray(data)) {
+    return { sequence: 0, entries: data.map((call, index) => toJournalEntry(call, index)) };
+  }
+
+  const record = (data || {}) as Record<string, unknown>;
+  if (record.full && typeof record.full === 'object') {
+    return {
+      full: record.full as AtomGraphSnapshot,
+      light: record.light as AtomGraphSnapshot | undefined,
+      sequence: 0,
+      entries: [],
+    };
+  }
+  if (record.atoms && record.atomOrder) {
+    return { full: record as unknown as AtomGraphSnapshot, sequence: 0, entries: [] };
+  }
+  if (typeof record.tool === 'string') {
+    return { sequence: 0, entries: [toJournalEntry(record, 0)] };
+  }
+
+  throw new Error(`Unrecognized file ${file}: expected a snapshot, a journal or an array of calls`);
+}
+
+// Recorded calls may omit the journal bookkeeping, which is then filled in from their position
+function toJournalEntry(call: unknown, index: number): JournalEntry {
+  const record = (call || {}) as Record<string, unknown>;
+  if (typeof record.tool !== 'string') {
+    throw new Error(`Invalid call ${index + 1}: tool must be a string`);
+  }
+  if (record.arguments !== undefined && (typeof record.arguments !== 'object' || Array.isArray(record.arguments))) {
+    throw new Error(`Invalid call ${index + 1}: arguments must be an object`);
+  }
+
+  return {
+    sequence: typeof record.sequence === 'number' ? record.sequence : index + 1,
+    timestamp: typeof record.timestamp === 'number' ? record.timestamp : Date.now(),
+    tool: record.tool,
+    arguments: (record.arguments || {}) as Record<string, unknown>,
+  };
+}
+
+// Short description of a recorded call, e.g. "AoT P1" or "atomcommands decompose"
+function describeEntry(entry: JournalEntry): string {
+  const args = entry.arguments;
+  if (entry.tool === 'atomcommands') {
+    return `atomcommands ${args.command}`;
+  }
+  if (entry.tool === 'AoT-batch') {
+    return `AoT-batch (${Array.isArray(args.atoms) ? args.atoms.length : 0} atoms)`;
+  }
+  return `${entry.tool} ${args.atomId ?? ''}`.trim();
+}
+
+function responseError(response: ToolResponse): string {
+  try {
+    const body = JSON.parse(response.content[0].text);
+    return body.error || (body.errors ? JSON.stringify(body.errors) : response.content[0].text);
+  } catch {
+    return response.content[0].text;
+  }
+}
+
+function requireFile(args: CliArguments): string {
+  if (args.positionals.length !== 1) {
+    throw new Error(`${args.command} expects exactly one file`);
+  }
+  return args.positionals[0];
+}
+
+function cliEngine(args: CliArguments): 'full' | 'light' {
+  const engine = args.options.engine ?? 'full';
+  if (engine !== 'full' && engine !== 'light') {
+    throw new Error('Invalid engine: must be one of full, light');
+  }
+  return engine;
+}
+
+// Rebuild a recording offline; failing calls are reported through onFailure
+function replayRecording(recording: Recording, config: AotConfig, onFailure?: (entry: JournalEntry, error: string) => void): ReasoningSession {
+  return new SessionManager(config).replay(recording, (entry, response) => {
+    if (response.isError) {
+      onFailure?.(entry, responseError(response));
+    }
+  });
+}
+
+// Structural problems of a stored graph that would break or be hidden by a restore
+function findGraphProblems(graph: AtomGraphSnapshot, config: AotConfig): string[] {
+  const problems: string[] = [];
+  if (!graph.atoms || !Array.isArray(graph.atomOrder)) {
+    return ['Graph must contain atoms and atomOrder'];
+  }
+
+  const missing = graph.atomOrder.filter(id => !graph.atoms[id]);
+  if (missing.length > 0) {
+    problems.push(`atomOrder lists unknown atoms ${missing.join(', ')}`);
+  }
+  const unordered = Object.keys(graph.atoms).filter(id => !graph.atomOrder.includes(id));
+  if (unordered.length > 0) {
+    problems.push(`Atoms ${unordered.join(', ')} are missing from atomOrder`);
+  }
+  for (const id of graph.verifiedConclusions || []) {
+    if (!graph.atoms[id]) {
+      problems.push(`Verified conclusion ${id} does not exist`);
+    }
+  }
+  for (const [decompositionId, state] of Object.entries(graph.decompositionStates || {})) {
+    for (const id of [state.originalAtomId, ...state.subAtoms]) {
+      if (!graph.atoms[id]) {
+        problems.push(`Decomposition ${decompositionId} refers to missing atom ${id}`);
+      }
+    }
+  }
+  for (const [setId, set] of Object.entries(graph.hypothesisSets || {})) {
+    for (const id of set.hypotheses) {
+      if (!graph.atoms[id]) {
+        problems.push(`Hypothesis set ${setId} refers to missing atom ${id}`);
+      }
+    }
+  }
+
+  if (problems.length === 0) {
+    try {
+      new AtomOfThoughtsServer(graph.maxDepth, engineSettings(config)).importGraph(graph);
+    } catch (e: any) {
+      problems.push(e.message);
+    }
+  }
+
+  return problems;
+}
+
+function runReplay(args: CliArguments, config: AotConfig): number {
+  const recording = readRecording(requireFile(args));
+  const manager = new SessionManager(config);
+  let failures = 0;
+
+  const session = manager.replay(recording, (entry, response) => {
+    if (response.isError) {
+      failures++;
+      console.log(`✗ #${entry.sequence} ${describeEntry(entry)}: ${responseError(response)}`);
+    } else {
+      console.log(`✓ #${entry.sequence} ${describeEntry(entry)}`);
+    }
+    if (args.options.verbose) {
+      console.log(response.content[0].text);
+    }
+  });
+
+  console.log(`Replayed ${recording.entries.length} calls (${failures} failed): ${session.full.getAtomCount()} atoms, ${session.light.getAtomCount()} light atoms`);
+
+  if (typeof args.options.out === 'string') {
+    fs.writeFileSync(args.options.out, JSON.stringify(manager.toSnapshot(session), null, 2), 'utf8');
+    console.log(`Wrote snapshot to ${args.options.out}`);
+  }
+
+  return failures > 0 ? 1 : 0;
+}
+
+function runValidate(args: CliArguments, config: AotConfig): number {
+  const recording = readRecording(requireFile(args));
+  const problems: string[] = [];
+
+  for (const engine of ['full', 'light'] as const) {
+    const graph = recording[engine];
+    if (graph) {
+      problems.push(...findGraphProblems(graph, config).map(problem => `${engine} graph: ${problem}`));
+    }
+  }
+  // Calls can only be checked against a graph that restores cleanly
+  const session = problems.length === 0 ? replayRecording(recording, config, (entry, error) => {
+    problems.push(`call #${entry.sequence} (${describeEntry(entry)}): ${error}`);
+  }) : null;
+
+  if (session && problems.length === 0) {
+    console.log(`✓ Valid: ${session.full.getAtomCount()} atoms, ${session.light.getAtomCount()} light atoms, ${recording.entries.length} calls replayed without errors`);
+    return 0;
+  }
+  for (const problem of problems) {
+    console.log(`✗ ${problem}`);
+  }
+  console.log(`${problems.length} problems found`);
+  return 1;
+}
+
+function runRender(args: CliArguments, config: AotConfig): number {
+  const requested = args.options.format ?? 'mermaid';
+  const format = (requested === 'md' ? 'markdown' : requested) as ExportFormat;
+  if (requested !== 'tree' && !EXPORT_FORMATS.includes(format)) {
+    throw new Error(`Invalid format: must be one of ${EXPORT_FORMATS.join(', ')}, md, tree`);
+  }
+
+  const session = replayRecording(readRecording(requireFile(args)), config);
+  const graph = session[cliEngine(args)].toSnapshot();
+  // The tree is meant for the terminal, so it follows the width and colors of stdout
+  const output = requested === 'tree'
+    ? renderTree(graph, { width: process.stdout.columns || 80, style: new Chalk({ level: config.logging.color ? chalk.level : 0 }) })
+    : exportGraph(graph, format);
+  process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+  return 0;
+}
+
+function runStats(args: CliArguments, config: AotConfig): number {
+  const session = replayRecording(readRecording(requireFile(args)), config);
+  const graph = session[cliEngine(args)];
+  const stats = graph.getStats();
+  const best = graph.getBestConclusion();
+  const termination = graph.getTerminationStatus();
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+  const { hypotheses, depth, decompositions, bestConclusionChain: chain, timing } = stats;
+
+  console.log([
+    `Atoms: ${stats.atomsCount} (${stats.verified} verified, ${stats.rejected} rejected, ${stats.retracted} retracted)`,
+    ...Object.entries(stats.byType).map(([atomType, count]) => `  ${atomType}: ${count}`),
+    `Hypotheses: ${hypotheses.total} (${hypotheses.checked} checked${hypotheses.coverage === null ? '' : `, ${formatPercent(hypotheses.coverage)} coverage`}, ${hypotheses.verified} verified, ${hypotheses.refuted} refuted)`,
+    `Deepest atom: ${depth.deepest} of ${depth.maxDepth}`,
+    ...depth.histogram.map(({ depth: level, count }) => `  depth ${level}: ${count}${level > depth.maxDepth ? ' (beyond maximum depth)' : ''}`),
+    `Decompositions: ${decompositions.total} (${decompositions.active} active, ${decompositions.completed} completed, ${decompositions.contracted} contracted, ${decompositions.aborted} aborted)`,
+    `Best conclusion: ${best ? `${best.atomId} (${formatPercent(best.confidence)}) - ${best.content}` : 'none'}`,
+    ...(chain ? [`  chain: ${chain.atomIds.length} atoms, average ${formatPercent(chain.averageConfidence)}, lowest ${chain.lowest.atomId} (${formatPercent(chain.lowest.confidence)})`] : []),
+    `Time between atoms: ${timing ? `average ${seconds(timing.averageGapMs)}, median ${seconds(timing.medianGapMs)}, longest ${seconds(timing.longestGapMs)} over ${seconds(timing.elapsedMs)}` : 'no atoms'}`,
+    `Termination: ${termination.shouldTerminate ? 'reached' : 'not reached'} - ${termination.reason}`,
+  ].join('\n'));
+  return 0;
+}
+
+export function runCli(args: CliArguments, config: AotConfig): number {
+  // Offline commands never write to the storage directory
+  const offline: AotConfig = { ...config, persistence: { ...config.persistence, directory: null } };
+
+  switch (args.command) {
+    case 'replay':
+      return runReplay(args, offline);
+    case 'validate':
+      return runValidate(args, offline);
+    case 'render':
+      return runRender(args, offline);
+    case 'stats':
+      return runStats(args, offline);
+    default:
+      console.log(CLI_USAGE);
+      return 0;
+  }
+}
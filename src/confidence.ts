@@ -0,0 +1,40 @@
+export type PropagationStrategy = 'min' | 'product' | 'noisy_or' | 'average' | 'none';
+
+export const PROPAGATION_STRATEGIES: PropagationStrategy[] = ['min', 'product', 'noisy_or', 'average', 'none'];
+
+export const DEFAULT_PROPAGATION_STRATEGY: PropagationStrategy = 'min';
+
+// Combine the stated confidence of an atom with the propagated confidences of its dependencies:
+// - min: weakest link, an atom is never more certain than any of its dependencies
+// - product: dependencies are independent requirements that must all hold
+// - noisy_or: each dependency is an independent reason, weighted by the stated confidence
+// - average: plain mean of the stated confidence and all dependencies
+// - none: dependencies are ignored
+export function combineConfidence(strategy: PropagationStrategy, stated: number, upstream: number[]): number {
+  if (upstream.length === 0) {
+    return stated;
+  }
+
+  let combined: number;
+  switch (strategy) {
+    case 'min':
+      combined = Math.min(stated, ...upstream);
+      break;
+    case 'product':
+      combined = upstream.reduce((product, confidence) => product * confidence, stated);
+      break;
+    case 'noisy_or':
+      combined = 1 - upstream.reduce((failure, confidence) => failure * (1 - stated * confidence), 1);
+      break;
+    case 'average':
+      combined = (stated + upstream.reduce((sum, confidence) => sum + confidence, 0)) / (upstream.length + 1);
+      break;
+    case 'none':
+      combined = stated;
+      break;
+    default:
+      throw new Error(`Invalid propagation strategy: must be one of ${PROPAGATION_STRATEGIES.join(', ')}`);
+  }
+
+  return Math.max(0, Math.min(1, combined));
+}
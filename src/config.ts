@@ -0,0 +1,273 @@
+import * as fs from 'fs';
+import { DEFAULT_HTTP_OPTIONS } from './http.js';
+import { LOG_FORMATS, LOG_LEVELS, LogFormat, LogLevel, LoggerOptions } from './logger.js';
+
+export type ToolName = 'AoT' | 'AoT-light' | 'AoT-batch' | 'atomcommands';
+
+export const TOOL_NAMES: ToolName[] = ['AoT', 'AoT-light', 'AoT-batch', 'atomcommands'];
+
+export type TransportType = 'stdio' | 'http';
+
+export const TRANSPORT_TYPES: TransportType[] = ['stdio', 'http'];
+
+// Tunable constants of the reasoning engine
+export interface EngineSettings {
+  conclusionThreshold: number; // Confidence a verified conclusion needs when a policy does not say otherwise
+  autoConclusionThreshold: number; // Confidence at which a verified hypothesis gets a suggested conclusion
+  conclusionDiscount: number; // Share of the hypothesis confidence a suggested conclusion starts with
+  logAtoms: boolean; // Print every processed atom to stderr
+  lintAtoms: boolean; // Attach the lint findings an atom introduced to its AoT response
+}
+
+export interface AotConfig {
+  engine: {
+    maxDepth: number;
+    lightMaxDepth: number;
+    conclusionThreshold: number;
+    autoConclusionThreshold: number;
+    conclusionDiscount: number;
+    lintAtoms: boolean;
+  };
+  tools: ToolName[];
+  logging: {
+    level: LogLevel;
+    format: LogFormat;
+    color: boolean;
+    quiet: boolean; // Only log errors, whatever the level
+    atoms: boolean;
+  };
+  persistence: {
+    directory: string | null;
+    snapshotInterval: number;
+  };
+  transport: {
+    type: TransportType;
+    host: string;
+    port: number;
+  };
+}
+
+export const DEFAULT_CONFIG: AotConfig = {
+  engine: {
+    maxDepth: 5,
+    lightMaxDepth: 3,
+    conclusionThreshold: 0.9,
+    autoConclusionThreshold: 0.8,
+    conclusionDiscount: 0.9,
+    lintAtoms: false,
+  },
+  tools: [...TOOL_NAMES],
+  logging: {
+    level: 'info',
+    format: 'pretty',
+    color: true,
+    quiet: false,
+    atoms: true,
+  },
+  persistence: {
+    directory: null,
+    snapshotInterval: 25,
+  },
+  transport: {
+    type: 'stdio',
+    host: DEFAULT_HTTP_OPTIONS.host,
+    port: DEFAULT_HTTP_OPTIONS.port,
+  },
+};
+
+export const DEFAULT_ENGINE_SETTINGS: EngineSettings = engineSettings(DEFAULT_CONFIG);
+
+export type ConfigSource = 'default' | 'file' | 'env' | 'flag';
+
+interface ConfigOption {
+  key: string; // Dotted path into AotConfig
+  env: string;
+  flag: string;
+  type: 'number' | 'string' | 'boolean' | 'list';
+}
+
+// Every setting with its environment variable and CLI flag; later sources override earlier ones
+export const CONFIG_OPTIONS: ConfigOption[] = [
+  { key: 'engine.maxDepth', env: 'AOT_MAX_DEPTH', flag: 'max-depth', type: 'number' },
+  { key: 'engine.lightMaxDepth', env: 'AOT_LIGHT_MAX_DEPTH', flag: 'light-max-depth', type: 'number' },
+  { key: 'engine.conclusionThreshold', env: 'AOT_CONCLUSION_THRESHOLD', flag: 'conclusion-threshold', type: 'number' },
+  { key: 'engine.autoConclusionThreshold', env: 'AOT_AUTO_CONCLUSION_THRESHOLD', flag: 'auto-conclusion-threshold', type: 'number' },
+  { key: 'engine.conclusionDiscount', env: 'AOT_CONCLUSION_DISCOUNT', flag: 'conclusion-discount', type: 'number' },
+  { key: 'engine.lintAtoms', env: 'AOT_LINT_ATOMS', flag: 'lint-atoms', type: 'boolean' },
+  { key: 'tools', env: 'AOT_TOOLS', flag: 'tools', type: 'list' },
+  { key: 'logging.level', env: 'AOT_LOG_LEVEL', flag: 'log-level', type: 'string' },
+  { key: 'logging.format', env: 'AOT_LOG_FORMAT', flag: 'log-format', type: 'string' },
+  { key: 'logging.color', env: 'AOT_LOG_COLOR', flag: 'color', type: 'boolean' },
+  { key: 'logging.quiet', env: 'AOT_QUIET', flag: 'quiet', type: 'boolean' },
+  { key: 'logging.atoms', env: 'AOT_LOG_ATOMS', flag: 'log-atoms', type: 'boolean' },
+  { key: 'persistence.directory', env: 'AOT_STORAGE_DIR', flag: 'storage-dir', type: 'string' },
+  { key: 'persistence.snapshotInterval', env: 'AOT_SNAPSHOT_INTERVAL', flag: 'snapshot-interval', type: 'number' },
+  { key: 'transport.type', env: 'AOT_TRANSPORT', flag: 'transport', type: 'string' },
+  { key: 'transport.host', env: 'AOT_HTTP_HOST', flag: 'http-host', type: 'string' },
+  { key: 'transport.port', env: 'AOT_HTTP_PORT', flag: 'http-port', type: 'number' },
+];
+
+export interface LoadedConfig {
+  config: AotConfig;
+  sources: Record<string, ConfigSource>;
+  file: string | null;
+}
+
+// Resolve the effective configuration: defaults, then the config file, then AOT_* variables, then CLI flags
+export function loadConfig(flags: Record<string, string | true> = {}, env: NodeJS.ProcessEnv = process.env): LoadedConfig {
+  const config = structuredClone(DEFAULT_CONFIG);
+  const sources: Record<string, ConfigSource> = Object.fromEntries(CONFIG_OPTIONS.map(option => [option.key, 'default']));
+
+  const file = typeof flags.config === 'string' ? flags.config : env.AOT_CONFIG || null;
+  if (file) {
+    if (!fs.existsSync(file)) {
+      throw new Error(`Config file ${file} not found`);
+    }
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e: any) {
+      throw new Error(`Invalid config file ${file}: ${e.message}`);
+    }
+    for (const [key, value] of Object.entries(flatten(data, file))) {
+      const option = CONFIG_OPTIONS.find(candidate => candidate.key === key);
+      if (!option) {
+        throw new Error(`Invalid config file ${file}: unknown setting ${key}`);
+      }
+      setValue(config, key, checkFileValue(option, value, file));
+      sources[key] = 'file';
+    }
+  }
+
+  for (const option of CONFIG_OPTIONS) {
+    const value = env[option.env];
+    if (value !== undefined && value !== '') {
+      setValue(config, option.key, parseValue(option, value, option.env));
+      sources[option.key] = 'env';
+    }
+  }
+  // The NO_COLOR convention (https://no-color.org) applies unless AOT_LOG_COLOR says otherwise
+  if (env.NO_COLOR && !env.AOT_LOG_COLOR) {
+    config.logging.color = false;
+    sources['logging.color'] = 'env';
+  }
+
+  for (const option of CONFIG_OPTIONS) {
+    const value = flags[option.flag];
+    if (value !== undefined) {
+      setValue(config, option.key, option.type === 'boolean' && value === true ? true : parseValue(option, String(value), `--${option.flag}`));
+      sources[option.key] = 'flag';
+    } else if (option.type === 'boolean' && flags[`no-${option.flag}`] !== undefined) {
+      setValue(config, option.key, false);
+      sources[option.key] = 'flag';
+    }
+  }
+
+  validateConfig(config, sources);
+  return { config, sources, file };
+}
+
+export function validateConfig(config: AotConfig, sources: Record<string, ConfigSource> = {}): void {
+  const fail = (key: string, message: string) => {
+    const option = CONFIG_OPTIONS.find(candidate => candidate.key === key);
+    const origin = option && sources[key] === 'env' ? ` (from ${option.env})`
+      : option && sources[key] === 'flag' ? ` (from --${option.flag})`
+      : '';
+    throw new Error(`Invalid config ${key}${origin}: ${message}`);
+  };
+  const isInteger = (value: number, min: number) => Number.isInteger(value) && value >= min;
+
+  if (!isInteger(config.engine.maxDepth, 1)) fail('engine.maxDepth', 'must be a positive integer');
+  if (!isInteger(config.engine.lightMaxDepth, 1)) fail('engine.lightMaxDepth', 'must be a positive integer');
+  for (const key of ['conclusionThreshold', 'autoConclusionThreshold', 'conclusionDiscount'] as const) {
+    const value = config.engine[key];
+    if (!(value >= 0 && value <= 1)) fail(`engine.${key}`, 'must be a number between 0 and 1');
+  }
+  if (!LOG_LEVELS.includes(config.logging.level)) fail('logging.level', `must be one of ${LOG_LEVELS.join(', ')}`);
+  if (!LOG_FORMATS.includes(config.logging.format)) fail('logging.format', `must be one of ${LOG_FORMATS.join(', ')}`);
+  const unknownTools = config.tools.filter(tool => !TOOL_NAMES.includes(tool));
+  if (unknownTools.length > 0) fail('tools', `unknown tools ${unknownTools.join(', ')}; must be among ${TOOL_NAMES.join(', ')}`);
+  if (!isInteger(config.persistence.snapshotInterval, 1)) fail('persistence.snapshotInterval', 'must be a positive integer');
+  if (!TRANSPORT_TYPES.includes(config.transport.type)) fail('transport.type', `must be one of ${TRANSPORT_TYPES.join(', ')}`);
+  if (!isInteger(config.transport.port, 0) || config.transport.port > 65535) fail('transport.port', 'must be a port number');
+}
+
+// Logger options for a configuration; quiet keeps only errors
+export function loggerOptions(config: AotConfig): LoggerOptions {
+  const { level, format, color, quiet } = config.logging;
+  return {
+    level: quiet && LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf('error') ? 'error' : level,
+    format,
+    color,
+  };
+}
+
+export function engineSettings(config: AotConfig): EngineSettings {
+  return {
+    conclusionThreshold: config.engine.conclusionThreshold,
+    autoConclusionThreshold: config.engine.autoConclusionThreshold,
+    conclusionDiscount: config.engine.conclusionDiscount,
+    logAtoms: config.logging.atoms,
+    lintAtoms: config.engine.lintAtoms,
+  };
+}
+
+// Turn nested config file objects into dotted keys; arrays and nulls are values
+function flatten(data: unknown, file: string, prefix: string = ''): Record<string, unknown> {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`Invalid config file ${file}: ${prefix ? `${prefix} must be an object` : 'must contain a JSON object'}`);
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(data)) {
+    const key = prefix ? `${prefix}.${name}` : name;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      if (!CONFIG_OPTIONS.some(option => option.key.startsWith(`${key}.`))) {
+        throw new Error(`Invalid config file ${file}: unknown setting ${key}`);
+      }
+      Object.assign(values, flatten(value, file, key));
+    } else {
+      values[key] = value;
+    }
+  }
+  return values;
+}
+
+function checkFileValue(option: ConfigOption, value: unknown, file: string): unknown {
+  const valid = option.type === 'list'
+    ? Array.isArray(value) && value.every(item => typeof item === 'string')
+    : typeof value === option.type || (option.key === 'persistence.directory' && value === null);
+  if (!valid) {
+    throw new Error(`Invalid config file ${file}: ${option.key} must be ${option.type === 'list' ? 'an array of strings' : `a ${option.type}`}`);
+  }
+  return value;
+}
+
+function parseValue(option: ConfigOption, value: string, origin: string): unknown {
+  switch (option.type) {
+    case 'number': {
+      const number = Number(value);
+      if (value.trim() === '' || Number.isNaN(number)) {
+        throw new Error(`Invalid config ${option.key} (from ${origin}): must be a number`);
+      }
+      return number;
+    }
+    case 'boolean':
+      if (['true', '1', 'yes'].includes(value.toLowerCase())) return true;
+      if (['false', '0', 'no'].includes(value.toLowerCase())) return false;
+      throw new Error(`Invalid config ${option.key} (from ${origin}): must be true or false`);
+    case 'list':
+      return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+    default:
+      return value;
+  }
+}
+
+function setValue(config: AotConfig, key: string, value: unknown): void {
+  const parts = key.split('.');
+  let target = config as unknown as Record<string, unknown>;
+  for (const part of parts.slice(0, -1)) {
+    target = target[part] as Record<string, unknown>;
+  }
+  target[parts[parts.length - 1]] = value;
+}
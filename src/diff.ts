@@ -0,0 +1,75 @@
+import { AtomData, AtomGraphSnapshot, ConclusionSummary } from './types.js';
+
+// Atom fields whose differences are reported as changes; verification is reported separately
+const COMPARED_FIELDS = ['content', 'atomType', 'dependencies', 'confidence', 'verdict', 'relations', 'isRejected', 'isRetracted'] as const;
+
+export type ComparedField = typeof COMPARED_FIELDS[number];
+
+export interface AtomChange {
+  atomId: string;
+  changes: Partial<Record<ComparedField, { before: unknown; after: unknown }>>;
+}
+
+export interface GraphDiff {
+  added: string[];
+  removed: string[];
+  changed: AtomChange[];
+  verificationFlips: Array<{ atomId: string; before: boolean; after: boolean }>;
+  bestConclusion: { before: ConclusionSummary | null; after: ConclusionSummary | null; changed: boolean };
+}
+
+// Compare two graphs atom by atom. Atoms are matched by ID, so the graphs should share an origin,
+// such as a checkpoint and the graph it was taken from, or two branches forked from one session.
+export function diffGraphs(
+  before: Pick<AtomGraphSnapshot, 'atoms' | 'atomOrder'>,
+  after: Pick<AtomGraphSnapshot, 'atoms' | 'atomOrder'>,
+  bestBefore: ConclusionSummary | null,
+  bestAfter: ConclusionSummary | null,
+): GraphDiff {
+  const changed: AtomChange[] = [];
+  const verificationFlips: GraphDiff['verificationFlips'] = [];
+
+  for (const atomId of after.atomOrder.filter(id => before.atoms[id] && after.atoms[id])) {
+    const previous = before.atoms[atomId];
+    const current = after.atoms[atomId];
+
+    const changes: AtomChange['changes'] = {};
+    for (const field of COMPARED_FIELDS) {
+      if (JSON.stringify(normalize(previous, field)) !== JSON.stringify(normalize(current, field))) {
+        changes[field] = { before: previous[field] ?? null, after: current[field] ?? null };
+      }
+    }
+    if (Object.keys(changes).length > 0) {
+      changed.push({ atomId, changes });
+    }
+
+    if (previous.isVerified !== current.isVerified) {
+      verificationFlips.push({ atomId, before: previous.isVerified, after: current.isVerified });
+    }
+  }
+
+  return {
+    added: after.atomOrder.filter(id => after.atoms[id] && !before.atoms[id]),
+    removed: before.atomOrder.filter(id => before.atoms[id] && !after.atoms[id]),
+    changed,
+    verificationFlips,
+    bestConclusion: {
+      before: bestBefore,
+      after: bestAfter,
+      changed: JSON.stringify(bestBefore) !== JSON.stringify(bestAfter),
+    },
+  };
+}
+
+// Missing optional fields and their defaults are the same thing
+function normalize(atom: AtomData, field: ComparedField): unknown {
+  switch (field) {
+    case 'relations':
+      return atom.relations || [];
+    case 'isRejected':
+    case 'isRetracted':
+      return atom[field] === true;
+    default:
+      return atom[field] ?? null;
+  }
+}
@@ -0,0 +1,1644 @@
+import { EventEmitter } from 'events';
+import { DEFAULT_ENGINE_SETTINGS, EngineSettings } from './config.js';
+import { DEFAULT_PROPAGATION_STRATEGY, PropagationStrategy, combineConfidence } from './confidence.js';
+import { LintFinding, lintGraph } from './lint.js';
+import { logger, style } from './logger.js';
+import { formatPercent, renderAtom } from './render.js';
+import { GraphStats, computeStats } from './stats.js';
+import {
+  DEFAULT_TERMINATION_POLICY,
+  TerminationPolicy,
+  TerminationStatus,
+  evaluateTerminationPolicy,
+} from './termination.js';
+import {
+  AlternativeStatus,
+  AlternativesConsistency,
+  AtomData,
+  AtomFilter,
+  AtomGraphSnapshot,
+  AtomInput,
+  AtomRelation,
+  AtomResult,
+  AtomType,
+  BatchError,
+  BatchResult,
+  ConclusionSummary,
+  ConfidenceUpdate,
+  DecompositionNode,
+  DecompositionState,
+  Explanation,
+  HypothesisSet,
+  HypothesisSetStatus,
+  JustificationNode,
+  JustificationStatus,
+  RelationType,
+  VerificationVerdict,
+} from './types.js';
+
+// An MCP tool result: the JSON response body as text, flagged when the call failed
+export type ToolResponse = {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+};
+
+// Lifecycle events of an engine and their payloads. Atoms are copies, so listeners cannot change the graph.
+export interface AtomOfThoughtsEvents {
+  atomAdded: [{ atom: AtomData; isNew: boolean }];
+  atomVerified: [{ atom: AtomData }];
+  atomRefuted: [{ atomId: string; verificationId: string; confidence: number }];
+  atomRetracted: [{ atomId: string; invalidatedAtoms: string[] }];
+  decompositionStarted: [{ decompositionId: string; atomId: string; parentDecompositionId?: string }];
+  decompositionCompleted: [{ decompositionId: string }];
+  contractionPerformed: [{ decompositionId: string; atomId: string; confidence: number }];
+  conclusionSuggested: [{ conclusion: AtomData; hypothesisId: string }];
+  terminationReached: [{ status: TerminationStatus; bestConclusion: ConclusionSummary | null }];
+}
+
+export type EngineEventName = keyof AtomOfThoughtsEvents;
+
+export const ENGINE_EVENTS: EngineEventName[] = [
+  'atomAdded', 'atomVerified', 'atomRefuted', 'atomRetracted', 'decompositionStarted',
+  'decompositionCompleted', 'contractionPerformed', 'conclusionSuggested', 'terminationReached',
+];
+
+// The reasoning engine: one atom graph with decomposition, contraction, verification and termination.
+// It has no transport of its own; the MCP server, the CLI and embedding applications all drive it.
+export class AtomOfThoughtsServer extends EventEmitter<AtomOfThoughtsEvents> {
+  protected atoms: Record<string, AtomData> = {};
+  protected atomOrder: string[] = [];
+  private verifiedConclusions: string[] = [];
+  private decompositionStates: Record<string, DecompositionState> = {};
+  public maxDepth: number = 5; // Default maximum depth
+  // Open decompositions, most recently started last
+  private decompositionStack: string[] = [];
+  private propagationStrategy: PropagationStrategy = DEFAULT_PROPAGATION_STRATEGY;
+  // Confidence of each atom after combining it with its dependencies
+  private propagatedConfidence: Record<string, number> = {};
+  // Previous versions of each atom, oldest first
+  private atomHistory: Record<string, AtomData[]> = {};
+  private terminationPolicy: TerminationPolicy = DEFAULT_TERMINATION_POLICY;
+  // Atoms processed since the last one that introduced a new ID
+  private stepsSinceNewAtom: number = 0;
+  // Mutually exclusive hypotheses, by set ID
+  private hypothesisSets: Record<string, HypothesisSet> = {};
+  // Clock used for timestamps and decomposition IDs; replaced while replaying a journal
+  protected now: () => number = Date.now;
+  // Changes since the last drainChanges call, used to notify resource subscribers
+  private changedAtomIds: Set<string> = new Set();
+  private graphChanged: boolean = false;
+  // Events held back while a batch is applied, so listeners never see atoms of a batch that is rolled back
+  private heldEvents: Array<() => void> | null = null;
+
+  constructor(maxDepth?: number, protected settings: EngineSettings = DEFAULT_ENGINE_SETTINGS) {
+    super();
+    if (maxDepth !== undefined && maxDepth > 0) {
+      this.maxDepth = maxDepth;
+    }
+  }
+
+  public setClock(clock: () => number): void {
+    this.now = clock;
+  }
+
+  public toSnapshot(): AtomGraphSnapshot {
+    return structuredClone({
+      atoms: this.atoms,
+      atomOrder: this.atomOrder,
+      verifiedConclusions: this.verifiedConclusions,
+      decompositionStates: this.decompositionStates,
+      maxDepth: this.maxDepth,
+      currentDecompositionId: this.getCurrentDecompositionId(),
+      decompositionStack: this.decompositionStack,
+      propagationStrategy: this.propagationStrategy,
+      atomHistory: this.atomHistory,
+      terminationPolicy: this.terminationPolicy,
+      stepsSinceNewAtom: this.stepsSinceNewAtom,
+      hypothesisSets: this.hypothesisSets,
+    });
+  }
+
+  public restoreSnapshot(snapshot: AtomGraphSnapshot): void {
+    const copy = structuredClone(snapshot);
+    this.atoms = copy.atoms;
+    this.atomOrder = copy.atomOrder;
+    this.verifiedConclusions = copy.verifiedConclusions;
+    this.decompositionStates = copy.decompositionStates;
+    this.maxDepth = copy.maxDepth;
+    this.decompositionStack = copy.decompositionStack ||
+      (copy.currentDecompositionId ? [copy.currentDecompositionId] : []);
+    this.propagationStrategy = copy.propagationStrategy || DEFAULT_PROPAGATION_STRATEGY;
+    this.atomHistory = copy.atomHistory || {};
+    this.terminationPolicy = copy.terminationPolicy || DEFAULT_TERMINATION_POLICY;
+    this.stepsSinceNewAtom = copy.stepsSinceNewAtom || 0;
+    this.hypothesisSets = copy.hypothesisSets || {};
+    this.propagatedConfidence = {};
+    this.propagateConfidence();
+    this.recordChange();
+  }
+
+  protected recordChange(atomId?: string): void {
+    if (atomId) {
+      this.changedAtomIds.add(atomId);
+    }
+    this.graphChanged = true;
+  }
+
+  // Emit a lifecycle event; a failing listener is logged instead of breaking the operation that raised it
+  protected notify<K extends EngineEventName>(event: K, payload: AtomOfThoughtsEvents[K][0]): void {
+    const emit = () => {
+      try {
+        (this as EventEmitter).emit(event, payload);
+      } catch (e: any) {
+        logger.error(style.red(`Listener for ${event} failed: ${e.message}`), { event: 'listener_failed', listenerEvent: event });
+      }
+    };
+
+    if (this.heldEvents) {
+      this.heldEvents.push(emit);
+    } else {
+      emit();
+    }
+  }
+
+  // Return and clear the atoms and graph changes recorded since the last call
+  public drainChanges(): { atomIds: string[]; graphChanged: boolean } {
+    const changes = { atomIds: [...this.changedAtomIds], graphChanged: this.graphChanged };
+    this.changedAtomIds.clear();
+    this.graphChanged = false;
+    return changes;
+  }
+
+  protected validateAtomData(input: unknown): AtomData {
+    const data = input as Record<string, unknown>;
+
+    if (!data.atomId || typeof data.atomId !== 'string') {
+      throw new Error('Invalid atomId: must be a string');
+    }
+    if (!data.content || typeof data.content !== 'string') {
+      throw new Error('Invalid content: must be a string');
+    }
+    if (!data.atomType || typeof data.atomType !== 'string' || 
+        !['premise', 'reasoning', 'hypothesis', 'verification', 'conclusion'].includes(data.atomType as string)) {
+      throw new Error('Invalid atomType: must be one of premise, reasoning, hypothesis, verification, conclusion');
+    }
+    if (!Array.isArray(data.dependencies)) {
+      throw new Error('Invalid dependencies: must be an array of atom IDs');
+    }
+    if (typeof data.confidence !== 'number' || data.confidence < 0 || data.confidence > 1) {
+      throw new Error('Invalid confidence: must be a number between 0 and 1');
+    }
+    if (data.verdict !== undefined) {
+      if (!['confirmed', 'refuted', 'inconclusive'].includes(data.verdict as string)) {
+        throw new Error('Invalid verdict: must be one of confirmed, refuted, inconclusive');
+      }
+      if (data.atomType !== 'verification') {
+        throw new Error('Invalid verdict: only verification atoms can carry a verdict');
+      }
+    }
+    if (data.relations !== undefined) {
+      if (!Array.isArray(data.relations) || !data.relations.every(relation =>
+          relation && typeof relation.target === 'string' &&
+          ['supports', 'contradicts', 'refines'].includes(relation.type))) {
+        throw new Error('Invalid relations: must be an array of { type: supports | contradicts | refines, target: atom ID }');
+      }
+    }
+
+    const verdict = data.verdict as VerificationVerdict | undefined;
+
+    return {
+      atomId: data.atomId as string,
+      content: data.content as string,
+      atomType: data.atomType as AtomType,
+      dependencies: data.dependencies as string[],
+      confidence: data.confidence as number,
+      created: data.created as number || this.now(),
+      // A confirmed or refuted verdict means the verification itself has been carried out
+      isVerified: data.isVerified as boolean || verdict === 'confirmed' || verdict === 'refuted',
+      depth: data.depth as number | undefined,
+      ...(verdict !== undefined && { verdict }),
+      ...(data.relations !== undefined && {
+        relations: (data.relations as AtomRelation[]).map(relation => ({ type: relation.type as RelationType, target: relation.target })),
+      }),
+    };
+  }
+
+  protected formatAtom(atomData: AtomData): string {
+    return renderAtom(atomData, this.maxDepth, { width: logger.width, style });
+  }
+
+  private validateDependencies(dependencies: string[]): boolean {
+    return dependencies.every(depId => this.atoms[depId] !== undefined);
+  }
+
+  // Dependencies and relations must point at live atoms without closing a cycle
+  protected validateReferences(atom: AtomData): void {
+    if (atom.dependencies.length > 0 && !this.validateDependencies(atom.dependencies)) {
+      throw new Error('Invalid dependencies: one or more dependency atoms do not exist');
+    }
+    const retractedDependencies = atom.dependencies.filter(depId => this.atoms[depId].isRetracted);
+    if (retractedDependencies.length > 0) {
+      throw new Error(`Invalid dependencies: atoms ${retractedDependencies.join(', ')} have been retracted`);
+    }
+    this.validateRelations(atom);
+    this.validateAcyclic(atom);
+  }
+
+  protected validateRelations(atom: AtomData): void {
+    for (const relation of atom.relations || []) {
+      if (relation.target === atom.atomId) {
+        throw new Error(`Invalid relations: atom ${atom.atomId} cannot relate to itself`);
+      }
+      if (!this.atoms[relation.target]) {
+        throw new Error(`Invalid relations: atom ${relation.target} does not exist`);
+      }
+    }
+  }
+
+  // Reject self-dependencies and dependencies that would close a cycle through existing atoms
+  protected validateAcyclic(atom: AtomData): void {
+    if (atom.dependencies.includes(atom.atomId)) {
+      throw new Error(`Invalid dependencies: atom ${atom.atomId} cannot depend on itself`);
+    }
+
+    for (const depId of atom.dependencies) {
+      const path = this.findDependencyPath(depId, atom.atomId);
+      if (path) {
+        throw new Error(`Invalid dependencies: cycle detected (${[atom.atomId, ...path].join(' -> ')})`);
+      }
+    }
+  }
+
+  // Follow dependencies from one atom and return the chain that reaches the target, if any
+  private findDependencyPath(
+    fromId: string,
+    targetId: string,
+    visited: Set<string> = new Set(),
+    dependenciesOf: (atomId: string) => string[] | undefined = atomId => this.atoms[atomId]?.dependencies,
+  ): string[] | null {
+    if (fromId === targetId) return [fromId];
+    const dependencies = dependenciesOf(fromId);
+    if (visited.has(fromId) || !dependencies) return null;
+    visited.add(fromId);
+
+    for (const depId of dependencies) {
+      const path = this.findDependencyPath(depId, targetId, visited, dependenciesOf);
+      if (path) return [fromId, ...path];
+    }
+    return null;
+  }
+
+  // An explicit decompositionId has to name a decomposition that is still open
+  private validateDecompositionId(decompositionId: unknown): void {
+    if (decompositionId === undefined) return;
+    if (typeof decompositionId !== 'string' || !this.decompositionStates[decompositionId]) {
+      throw new Error(`Invalid decompositionId: decomposition ${decompositionId} not found`);
+    }
+    const requested = this.decompositionStates[decompositionId];
+    if (requested.isCompleted || requested.isAborted) {
+      throw new Error(`Invalid decompositionId: decomposition ${decompositionId} is no longer open`);
+    }
+  }
+
+  // Order atoms so that every atom comes after all of its dependencies
+  public getTopologicalOrder(): string[] {
+    const remaining: Record<string, number> = {};
+    for (const id of this.atomOrder) {
+      remaining[id] = this.atoms[id].dependencies.filter(depId => this.atoms[depId]).length;
+    }
+
+    const order: string[] = [];
+    let ready = this.atomOrder.filter(id => remaining[id] === 0);
+    while (ready.length > 0) {
+      order.push(...ready);
+      const readySet = new Set(ready);
+      ready = this.atomOrder.filter(id => {
+        if (remaining[id] === 0) return false;
+        remaining[id] -= this.atoms[id].dependencies.filter(depId => readySet.has(depId)).length;
+        return remaining[id] === 0;
+      });
+    }
+
+    if (order.length < this.atomOrder.length) {
+      const cyclic = this.atomOrder.filter(id => remaining[id] > 0);
+      throw new Error(`Graph contains a cycle involving atoms ${cyclic.join(', ')}`);
+    }
+
+    return order;
+  }
+
+  // All atoms the given atom transitively depends on
+  public getAncestors(atomId: string): string[] {
+    if (!this.atoms[atomId]) {
+      throw new Error(`Atom with ID ${atomId} not found`);
+    }
+
+    const ancestors = new Set<string>();
+    const visit = (id: string) => {
+      for (const depId of this.atoms[id]?.dependencies || []) {
+        if (!ancestors.has(depId) && this.atoms[depId]) {
+          ancestors.add(depId);
+          visit(depId);
+        }
+      }
+    };
+    visit(atomId);
+
+    return this.atomOrder.filter(id => ancestors.has(id));
+  }
+
+  // All atoms that transitively depend on the given atom
+  public getDescendants(atomId: string): string[] {
+    if (!this.atoms[atomId]) {
+      throw new Error(`Atom with ID ${atomId} not found`);
+    }
+
+    const descendants = new Set<string>();
+    const visit = (id: string) => {
+      for (const dependentId of this.getDependentAtoms(id)) {
+        if (!descendants.has(dependentId)) {
+          descendants.add(dependentId);
+          visit(dependentId);
+        }
+      }
+    };
+    visit(atomId);
+
+    return this.atomOrder.filter(id => descendants.has(id));
+  }
+
+  public getPropagationStrategy(): PropagationStrategy {
+    return this.propagationStrategy;
+  }
+
+  public setPropagationStrategy(strategy: PropagationStrategy): ConfidenceUpdate[] {
+    this.propagationStrategy = strategy;
+    return this.propagateConfidence();
+  }
+
+  public getPropagatedConfidence(atomId: string): number | null {
+    return this.propagatedConfidence[atomId] ?? null;
+  }
+
+  // Recompute the propagated confidence of every atom and return the ones that changed
+  protected propagateConfidence(): ConfidenceUpdate[] {
+    const computed: Record<string, number> = {};
+    const visiting = new Set<string>();
+
+    const compute = (atomId: string): number => {
+      if (computed[atomId] !== undefined) return computed[atomId];
+      const atom = this.atoms[atomId];
+      // Cycles cannot occur in a validated graph, but never recurse forever on one
+      if (visiting.has(atomId)) return atom.confidence;
+      visiting.add(atomId);
+
+      const upstream = atom.dependencies.filter(depId => this.atoms[depId]).map(compute);
+      computed[atomId] = combineConfidence(this.propagationStrategy, atom.confidence, upstream);
+
+      visiting.delete(atomId);
+      return computed[atomId];
+    };
+
+    const updates: ConfidenceUpdate[] = [];
+    for (const atomId of this.atomOrder) {
+      const current = compute(atomId);
+      const previous = this.propagatedConfidence[atomId];
+      if (previous !== undefined && Math.abs(previous - current) > 1e-9) {
+        updates.push({ atomId, previous, current });
+        this.recordChange(atomId);
+      }
+    }
+
+    this.propagatedConfidence = computed;
+    return updates;
+  }
+
+  private updateConfidence(atomId: string, newConfidence: number) {
+    if (this.atoms[atomId]) {
+      this.atoms[atomId].confidence = Math.max(0, Math.min(1, newConfidence));
+      this.recordChange(atomId);
+    }
+  }
+
+  protected verifyAtom(atomId: string, isVerified: boolean) {
+    if (this.atoms[atomId]) {
+      const wasVerified = this.atoms[atomId].isVerified;
+      this.atoms[atomId].isVerified = isVerified;
+      if (isVerified) {
+        this.atoms[atomId].needsReverification = false;
+        this.atoms[atomId].isRejected = false;
+      }
+      this.recordChange(atomId);
+      if (isVerified && !wasVerified) {
+        this.notify('atomVerified', { atom: structuredClone(this.atoms[atomId]) });
+      }
+      
+      if (isVerified && this.atoms[atomId].atomType === 'conclusion') {
+        if (!this.verifiedConclusions.includes(atomId)) {
+          this.verifiedConclusions.push(atomId);
+        }
+      } else if (!isVerified && this.atoms[atomId].atomType === 'conclusion') {
+        this.verifiedConclusions = this.verifiedConclusions.filter(id => id !== atomId);
+      }
+
+      // Verifying the last sub-atom of a completed decomposition contracts it
+      if (isVerified) {
+        this.checkForContraction([atomId]);
+      }
+
+      // Trigger contraction if a verification atom verifies a hypothesis
+      if (isVerified && this.atoms[atomId].atomType === 'verification') {
+        const verifiedHypothesisIds = this.atoms[atomId].dependencies.filter(
+          depId => this.atoms[depId] && this.atoms[depId].atomType === 'hypothesis'
+        );
+        
+        if (verifiedHypothesisIds.length > 0) {
+          // Mark the hypotheses as verified
+          verifiedHypothesisIds.forEach(hypId => {
+            const wasVerified = this.atoms[hypId].isVerified;
+            this.atoms[hypId].isVerified = true;
+            this.atoms[hypId].needsReverification = false;
+            this.atoms[hypId].isRejected = false;
+            this.recordChange(hypId);
+            if (!wasVerified) {
+              this.notify('atomVerified', { atom: structuredClone(this.atoms[hypId]) });
+            }
+          });
+          
+          // Check if this should trigger a contraction
+          this.checkForContraction(verifiedHypothesisIds);
+        }
+      }
+    }
+  }
+
+  // Store an atom, keeping the replaced version in its history and invalidating what rested on it
+  protected storeAtom(atom: AtomData): string[] {
+    const previous = this.atoms[atom.atomId];
+    let invalidatedAtoms: string[] = [];
+
+    if (previous) {
+      // Hypothesis sets may have scaled the stored confidence; a resubmission restates the original one
+      const hypothesisSet = this.hypothesisSetOf(atom.atomId);
+      const statedConfidence = hypothesisSet?.statedConfidences?.[atom.atomId] ?? previous.confidence;
+      const isRevision = previous.content !== atom.content ||
+        previous.atomType !== atom.atomType ||
+        statedConfidence !== atom.confidence ||
+        previous.isRetracted === true ||
+        previous.verdict !== atom.verdict ||
+        JSON.stringify(previous.relations || []) !== JSON.stringify(atom.relations || []) ||
+        previous.dependencies.join('\u0000') !== atom.dependencies.join('\u0000');
+
+      atom.version = previous.version || 1;
+      if (isRevision) {
+        this.atomHistory[atom.atomId] = [...(this.atomHistory[atom.atomId] || []), previous];
+        atom.version++;
+        invalidatedAtoms = this.invalidateDependents(previous);
+        if (hypothesisSet?.statedConfidences) {
+          hypothesisSet.statedConfidences[atom.atomId] = atom.confidence;
+        }
+      } else {
+        // An unchanged resubmission keeps what verifications, decompositions and hypothesis sets derived for the atom
+        atom.confidence = previous.confidence;
+        atom.isVerified = previous.isVerified || atom.isVerified;
+        atom.isRejected = previous.isRejected;
+        atom.needsReverification = previous.needsReverification;
+        atom.depth = previous.depth;
+      }
+
+      if (previous.atomType === 'conclusion' && previous.isVerified && !atom.isVerified) {
+        this.verifiedConclusions = this.verifiedConclusions.filter(id => id !== atom.atomId);
+      }
+      this.stepsSinceNewAtom++;
+    } else {
+      atom.version = 1;
+      this.stepsSinceNewAtom = 0;
+    }
+
+    this.atoms[atom.atomId] = atom;
+    this.recordChange(atom.atomId);
+
+    if (!this.atomOrder.includes(atom.atomId)) {
+      this.atomOrder.push(atom.atomId);
+    }
+
+    if (invalidatedAtoms.length > 0) {
+      logger.warn(style.yellow(`⚠️ Revision of atom ${atom.atomId} invalidated ${invalidatedAtoms.join(', ')}`), { event: 'atom_revised', atomId: atom.atomId, invalidatedAtoms });
+    }
+    this.notify('atomAdded', { atom: structuredClone(atom), isNew: !previous });
+    if (atom.isVerified && !previous?.isVerified) {
+      this.notify('atomVerified', { atom: structuredClone(atom) });
+    }
+
+    return invalidatedAtoms;
+  }
+
+  // Withdraw an atom and invalidate everything that rested on it
+  public retractAtom(atomId: string): string[] {
+    const atom = this.atoms[atomId];
+    if (!atom) {
+      throw new Error(`Atom with ID ${atomId} not found`);
+    }
+    if (atom.isRetracted) {
+      throw new Error(`Atom ${atomId} is already retracted`);
+    }
+
+    this.atomHistory[atomId] = [...(this.atomHistory[atomId] || []), structuredClone(atom)];
+    const invalidatedAtoms = this.invalidateDependents(atom);
+
+    atom.version = (atom.version || 1) + 1;
+    atom.isRetracted = true;
+    this.verifyAtom(atomId, false);
+
+    // A hypothesis set whose winner lost its confirmation is open again
+    this.balanceAlternatives();
+    this.propagateConfidence();
+
+    logger.info(style.yellow(`🚫 Retracted atom ${atomId}${invalidatedAtoms.length > 0 ? `, invalidated ${invalidatedAtoms.join(', ')}` : ''}`), { event: 'atom_retracted', atomId, invalidatedAtoms });
+    this.notify('atomRetracted', { atomId, invalidatedAtoms: [...invalidatedAtoms] });
+
+    return invalidatedAtoms;
+  }
+
+  public getAtomHistory(atomId: string): AtomData[] {
+    if (!this.atoms[atomId]) {
+      throw new Error(`Atom with ID ${atomId} not found`);
+    }
+    return structuredClone([...(this.atomHistory[atomId] || []), this.atoms[atomId]]);
+  }
+
+  // Un-verify and flag every atom whose support depends on the given (old) version of an atom
+  private invalidateDependents(atom: AtomData, ignore: string[] = []): string[] {
+    const affected = new Set(this.getDescendants(atom.atomId));
+
+    // A verification atom also carried the verdict on the atoms it checked
+    if (this.confirms(atom) || this.refutes(atom)) {
+      for (const depId of atom.dependencies) {
+        const target = this.atoms[depId];
+        if (!target) continue;
+
+        const otherVerifications = this.getDependentAtoms(depId)
+          .filter(id => id !== atom.atomId)
+          .map(id => this.atoms[id]);
+        const carriedVerification = this.confirms(atom) && target.isVerified &&
+          !otherVerifications.some(other => this.confirms(other));
+        const carriedRejection = this.refutes(atom) && target.isRejected &&
+          !otherVerifications.some(other => this.refutes(other));
+
+        if (carriedRejection) {
+          target.isRejected = false;
+        }
+        if (carriedVerification || carriedRejection) {
+          affected.add(depId);
+          this.getDescendants(depId).forEach(id => affected.add(id));
+        }
+      }
+    }
+    affected.delete(atom.atomId);
+    ignore.forEach(id => affected.delete(id));
+
+    const invalidated = this.atomOrder.filter(id => affected.has(id) && !this.atoms[id].isRetracted);
+    for (const id of invalidated) {
+      this.atoms[id].needsReverification = true;
+      if (this.atoms[id].isVerified) {
+        this.verifyAtom(id, false);
+      } else {
+        this.recordChange(id);
+      }
+    }
+
+    return invalidated;
+  }
+
+  private confirms(atom: AtomData): boolean {
+    return atom.atomType === 'verification' && atom.isVerified && !atom.isRetracted &&
+      (atom.verdict || 'confirmed') === 'confirmed';
+  }
+
+  private refutes(atom: AtomData): boolean {
+    return atom.atomType === 'verification' && !atom.isRetracted && atom.verdict === 'refuted';
+  }
+
+  // Apply the verdict of a verification atom to the atoms it checked
+  protected applyVerification(verification: AtomData): { rejectedAtoms: string[]; invalidatedAtoms: string[] } {
+    const outcome = { rejectedAtoms: [] as string[], invalidatedAtoms: [] as string[] };
+    const targets = verification.dependencies.filter(depId => this.atoms[depId] && !this.atoms[depId].isRetracted);
+
+    if (this.confirms(verification)) {
+      targets.forEach(depId => this.verifyAtom(depId, true));
+    } else if (this.refutes(verification)) {
+      for (const depId of targets) {
+        outcome.rejectedAtoms.push(depId);
+        outcome.invalidatedAtoms.push(...this.refuteAtom(depId, verification));
+      }
+    }
+
+    return outcome;
+  }
+
+  // Reject an atom that a verification found to be false and invalidate what rests on it
+  private refuteAtom(atomId: string, verification: AtomData): string[] {
+    const atom = this.atoms[atomId];
+    this.verifyAtom(atomId, false);
+    atom.isRejected = true;
+    this.updateConfidence(atomId, atom.confidence * (1 - verification.confidence));
+
+    // Other verifications of the same atom are opinions about it, not conclusions drawn from it
+    const verifications = this.getDependentAtoms(atomId).filter(id => this.atoms[id].atomType === 'verification');
+    const invalidatedAtoms = this.invalidateDependents(atom, verifications);
+
+    logger.info(style.red(`❌ Atom ${atomId} refuted by ${verification.atomId}, confidence lowered to ${formatPercent(atom.confidence)}`), { event: 'atom_refuted', atomId, verificationId: verification.atomId, confidence: atom.confidence });
+    this.notify('atomRefuted', { atomId, verificationId: verification.atomId, confidence: atom.confidence });
+
+    return invalidatedAtoms;
+  }
+
+  // Declare hypotheses as mutually exclusive answers to one question; declaring an existing setId replaces that set
+  public declareAlternatives(
+    atomIds: string[],
+    options: { setId?: string; question?: string; consistency?: AlternativesConsistency } = {},
+  ): HypothesisSetStatus {
+    if (!Array.isArray(atomIds) || atomIds.length < 2 || new Set(atomIds).size !== atomIds.length) {
+      throw new Error('Invalid atomIds: a hypothesis set needs at least two different hypotheses');
+    }
+    for (const atomId of atomIds) {
+      const atom = this.atoms[atomId];
+      if (!atom) {
+        throw new Error(`Atom with ID ${atomId} not found`);
+      }
+      if (atom.atomType !== 'hypothesis' || atom.isRetracted) {
+        throw new Error(`Invalid atomIds: ${atomId} is ${atom.isRetracted ? 'retracted' : `a ${atom.atomType}`}, not a hypothesis`);
+      }
+      const other = Object.values(this.hypothesisSets).find(set => set.setId !== options.setId && set.hypotheses.includes(atomId));
+      if (other) {
+        throw new Error(`Invalid atomIds: ${atomId} already belongs to hypothesis set ${other.setId}`);
+      }
+    }
+
+    let setId = options.setId || `alternatives_${this.now()}`;
+    for (let suffix = 2; !options.setId && this.hypothesisSets[setId]; suffix++) {
+      setId = `alternatives_${this.now()}_${suffix}`;
+    }
+
+    // Alternatives dropped from a replaced set get their stated confidence back
+    const replaced = this.hypothesisSets[setId];
+    const statedConfidences = { ...replaced?.statedConfidences };
+    for (const [atomId, confidence] of Object.entries(statedConfidences)) {
+      const atom = this.atoms[atomId];
+      if (!atomIds.includes(atomId)) {
+        if (atom && !atom.isVerified && !atom.isRejected && !atom.isRetracted) {
+          this.updateConfidence(atomId, confidence);
+        }
+        delete statedConfidences[atomId];
+      }
+    }
+
+    this.hypothesisSets[setId] = {
+      setId,
+      ...(options.question ? { question: options.question } : {}),
+      hypotheses: [...atomIds],
+      consistency: options.consistency || 'normalize',
+      statedConfidences,
+    };
+    this.recordChange();
+
+    logger.info(style.cyan(`⚖️ Declared hypothesis set ${setId}: ${atomIds.join(', ')}`), { event: 'alternatives_declared', setId, atomIds });
+    this.balanceAlternatives();
+    this.propagateConfidence();
+
+    const status = this.describeHypothesisSet(this.hypothesisSets[setId]);
+    this.warnAboutAlternatives([status]);
+    return status;
+  }
+
+  public listHypothesisSets(): HypothesisSetStatus[] {
+    return Object.values(this.hypothesisSets).map(set => this.describeHypothesisSet(set));
+  }
+
+  // Keep every hypothesis set consistent: once an alternative is verified the others are demoted, like a
+  // refutation by the strongest verification that confirmed it; normalising sets scale their alternatives
+  // down to a total confidence of 1. The confidence of an unverified alternative is always derived from the
+  // one it was submitted with, so a demotion is undone when the set opens again. Returns the IDs of the sets that changed.
+  protected balanceAlternatives(): string[] {
+    const changed = new Set<string>();
+
+    for (const set of Object.values(this.hypothesisSets)) {
+      const stated = set.statedConfidences ||= {};
+      const standing = set.hypotheses.map(id => this.atoms[id]).filter(atom => atom && !atom.isRetracted && !atom.isRejected);
+      standing.forEach(atom => stated[atom.atomId] ??= atom.confidence);
+      if (set.resolvedBy && !standing.some(atom => atom.atomId === set.resolvedBy && atom.isVerified)) {
+        delete set.resolvedBy;
+        changed.add(set.setId);
+      }
+
+      const winner = standing.filter(atom => atom.isVerified).sort((a, b) => b.confidence - a.confidence)[0];
+      let strength = 0;
+      if (winner) {
+        const confirmations = this.getDependentAtoms(winner.atomId).map(id => this.atoms[id]).filter(atom => this.confirms(atom));
+        strength = confirmations.length > 0 ? Math.max(...confirmations.map(atom => atom.confidence)) : winner.confidence;
+      }
+      const open = standing.filter(atom => !atom.isVerified);
+      if (winner && set.resolvedBy !== winner.atomId) {
+        set.resolvedBy = winner.atomId;
+        changed.add(set.setId);
+
+        logger.info(style.yellow(`⚖️ ${winner.atomId} verified, demoted its alternatives ${open.map(atom => atom.atomId).join(', ') || 'none'} in hypothesis set ${set.setId}`), { event: 'alternatives_demoted', setId: set.setId, atomId: winner.atomId, demotedAtoms: open.map(atom => atom.atomId) });
+      }
+
+      const total = standing.reduce((sum, atom) => sum + stated[atom.atomId], 0);
+      const scale = set.consistency === 'normalize' && total > 1 + 1e-9 ? 1 / total : 1;
+      for (const atom of open) {
+        const confidence = stated[atom.atomId] * scale * (1 - strength);
+        if (Math.abs(atom.confidence - confidence) > 1e-9) {
+          this.updateConfidence(atom.atomId, confidence);
+          changed.add(set.setId);
+        }
+      }
+    }
+
+    if (changed.size > 0) {
+      this.recordChange();
+    }
+    return [...changed];
+  }
+
+  private hypothesisSetOf(atomId: string): HypothesisSet | undefined {
+    return Object.values(this.hypothesisSets).find(set => set.hypotheses.includes(atomId));
+  }
+
+  private warnAboutAlternatives(sets: HypothesisSetStatus[]): void {
+    for (const set of sets.filter(set => set.warning)) {
+      logger.warn(style.yellow(`⚠️ ${set.warning}`), { event: 'alternatives_inconsistent', setId: set.setId });
+    }
+  }
+
+  private describeHypothesisSet(set: HypothesisSet): HypothesisSetStatus {
+    const alternatives = set.hypotheses.filter(id => this.atoms[id]).map(id => {
+      const atom = this.atoms[id];
+      const status: AlternativeStatus = atom.isRetracted ? 'retracted'
+        : atom.isRejected ? 'rejected'
+        : atom.isVerified ? 'verified'
+        : set.resolvedBy && set.resolvedBy !== id ? 'demoted'
+        : 'open';
+      return { atomId: id, confidence: atom.confidence, status };
+    });
+    const standing = alternatives.filter(alternative => alternative.status !== 'retracted' && alternative.status !== 'rejected');
+    const verified = standing.filter(alternative => alternative.status === 'verified');
+    const candidates = verified.length > 0 ? verified : standing;
+    const leader = candidates.length > 0
+      ? candidates.reduce((best, alternative) => alternative.confidence > best.confidence ? alternative : best).atomId
+      : null;
+    const totalConfidence = standing.reduce((sum, alternative) => sum + alternative.confidence, 0);
+
+    const warning = verified.length > 1
+      ? `Alternatives ${verified.map(alternative => alternative.atomId).join(', ')} of hypothesis set ${set.setId} are all verified, but only one of them can hold`
+      : totalConfidence > 1 + 1e-9
+        ? `Alternatives of hypothesis set ${set.setId} add up to ${formatPercent(totalConfidence)} (${standing.map(alternative => `${alternative.atomId} ${formatPercent(alternative.confidence)}`).join(', ')}), but only one of them can hold`
+        : null;
+
+    return {
+      ...structuredClone(set),
+      alternatives,
+      leader,
+      totalConfidence,
+      isConsistent: warning === null,
+      warning,
+    };
+  }
+
+  // New method for decomposition
+  public startDecomposition(atomId: string): string {
+    if (!this.atoms[atomId]) {
+      throw new Error(`Atom with ID ${atomId} not found`);
+    }
+
+    // Generate a unique ID for this decomposition
+    let decompositionId = `decomp_${this.now()}`;
+    for (let suffix = 2; this.decompositionStates[decompositionId]; suffix++) {
+      decompositionId = `decomp_${this.now()}_${suffix}`;
+    }
+
+    // Decomposing a sub-atom of an open decomposition nests the new one below it
+    const parentDecompositionId = [...this.decompositionStack].reverse()
+      .find(id => this.decompositionStates[id].subAtoms.includes(atomId));
+
+    this.decompositionStates[decompositionId] = {
+      originalAtomId: atomId,
+      subAtoms: [],
+      isCompleted: false,
+      ...(parentDecompositionId && { parentDecompositionId }),
+    };
+
+    this.decompositionStack.push(decompositionId);
+    this.recordChange();
+    
+    logger.info(style.cyan(`🔍 Starting decomposition of atom ${atomId} (ID: ${decompositionId})`), { event: 'decomposition_started', decompositionId, atomId });
+    this.notify('decompositionStarted', { decompositionId, atomId, ...(parentDecompositionId && { parentDecompositionId }) });
+    
+    return decompositionId;
+  }
+
+  // The decomposition new atoms are added to when no decompositionId is given
+  public getCurrentDecompositionId(): string | null {
+    return this.decompositionStack[this.decompositionStack.length - 1] ?? null;
+  }
+
+  // Add a sub-atom to an ongoing decomposition
+  public addToDecomposition(decompositionId: string, atomId: string): boolean {
+    if (!this.decompositionStates[decompositionId]) {
+      throw new Error(`Decomposition with ID ${decompositionId} not found`);
+    }
+    
+    if (this.decompositionStates[decompositionId].isCompleted) {
+      throw new Error(`Decomposition ${decompositionId} is already completed`);
+    }
+
+    if (this.decompositionStates[decompositionId].isAborted) {
+      throw new Error(`Decomposition ${decompositionId} has been aborted`);
+    }
+    
+    if (!this.atoms[atomId]) {
+      throw new Error(`Atom with ID ${atomId} not found`);
+    }
+
+    if (this.decompositionStates[decompositionId].originalAtomId === atomId) {
+      throw new Error(`Atom ${atomId} cannot be a sub-atom of its own decomposition`);
+    }
+    
+    // Calculate depth for the new atom
+    const parentDepth = this.atoms[this.decompositionStates[decompositionId].originalAtomId].depth || 0;
+    this.atoms[atomId].depth = parentDepth + 1;
+    
+    // Check if we've hit the maximum depth
+    if (this.atoms[atomId].depth >= this.maxDepth) {
+      logger.warn(style.yellow(`⚠️ Maximum depth ${this.maxDepth} reached with atom ${atomId}`), { event: 'max_depth_reached', atomId, maxDepth: this.maxDepth });
+    }
+    
+    if (!this.decompositionStates[decompositionId].subAtoms.includes(atomId)) {
+      this.decompositionStates[decompositionId].subAtoms.push(atomId);
+    }
+    this.recordChange(atomId);
+    
+    logger.debug(style.cyan(`➕ Added atom ${atomId} to decomposition ${decompositionId}`), { event: 'decomposition_atom_added', decompositionId, atomId });
+    
+    return true;
+  }
+
+  // Complete a decomposition
+  public completeDecomposition(decompositionId: string): boolean {
+    if (!this.decompositionStates[decompositionId]) {
+      throw new Error(`Decomposition with ID ${decompositionId} not found`);
+    }
+
+    if (this.decompositionStates[decompositionId].isAborted) {
+      throw new Error(`Decomposition ${decompositionId} has been aborted`);
+    }
+
+    const openChildren = this.getChildDecompositions(decompositionId)
+      .filter(id => !this.decompositionStates[id].isCompleted && !this.decompositionStates[id].isAborted);
+    if (openChildren.length > 0) {
+      throw new Error(`Decomposition ${decompositionId} has open nested decompositions: ${openChildren.join(', ')}`);
+    }
+    
+    this.decompositionStates[decompositionId].isCompleted = true;
+    this.decompositionStack = this.decompositionStack.filter(id => id !== decompositionId);
+    this.recordChange();
+    
+    logger.info(style.green(`✅ Completed decomposition ${decompositionId}`), { event: 'decomposition_completed', decompositionId });
+    this.notify('decompositionCompleted', { decompositionId });
+
+    // Sub-atoms may all have been verified before the decomposition was completed
+    this.checkForContraction(this.decompositionStates[decompositionId].subAtoms);
+    
+    return true;
+  }
+
+  // Abandon a decomposition and every open decomposition nested below it; its sub-atoms stay in the graph
+  public abortDecomposition(decompositionId: string): string[] {
+    const state = this.decompositionStates[decompositionId];
+    if (!state) {
+      throw new Error(`Decomposition with ID ${decompositionId} not found`);
+    }
+    if (state.isCompleted) {
+      throw new Error(`Decomposition ${decompositionId} is already completed`);
+    }
+    if (state.isAborted) {
+      throw new Error(`Decomposition ${decompositionId} has already been aborted`);
+    }
+
+    const aborted: string[] = [];
+    const abort = (id: string) => {
+      const target = this.decompositionStates[id];
+      if (target.isCompleted || target.isAborted) return;
+
+      target.isAborted = true;
+      aborted.push(id);
+      this.getChildDecompositions(id).forEach(abort);
+    };
+    abort(decompositionId);
+
+    this.decompositionStack = this.decompositionStack.filter(id => !aborted.includes(id));
+    this.recordChange();
+
+    logger.info(style.yellow(`🚫 Aborted decomposition ${aborted.join(', ')}`), { event: 'decomposition_aborted', decompositionIds: aborted });
+
+    return aborted;
+  }
+
+  // The decomposition tree, roots first in the order they were started
+  public listDecompositions(): DecompositionNode[] {
+    const buildNode = (decompositionId: string): DecompositionNode => {
+      const state = this.decompositionStates[decompositionId];
+      const subAtoms = state.subAtoms.filter(id => this.atoms[id]);
+
+      return {
+        decompositionId,
+        originalAtomId: state.originalAtomId,
+        status: state.isAborted ? 'aborted'
+          : state.isContracted ? 'contracted'
+          : state.isCompleted ? 'completed'
+          : 'active',
+        isCurrent: this.getCurrentDecompositionId() === decompositionId,
+        subAtoms: state.subAtoms,
+        progress: {
+          verified: subAtoms.filter(id => this.atoms[id].isVerified).length,
+          rejected: subAtoms.filter(id => this.atoms[id].isRejected).length,
+          total: subAtoms.length,
+        },
+        children: this.getChildDecompositions(decompositionId).map(buildNode),
+      };
+    };
+
+    return Object.keys(this.decompositionStates)
+      .filter(id => !this.decompositionStates[id].parentDecompositionId)
+      .map(buildNode);
+  }
+
+  private getChildDecompositions(decompositionId: string): string[] {
+    return Object.keys(this.decompositionStates)
+      .filter(id => this.decompositionStates[id].parentDecompositionId === decompositionId);
+  }
+
+  // Contraction mechanism
+  private checkForContraction(verifiedAtomIds: string[]): void {
+    // Find decomposition states that have these atoms as sub-atoms
+    for (const [decompId, state] of Object.entries(this.decompositionStates)) {
+      if (state.isCompleted && !state.isAborted && !state.isContracted &&
+          verifiedAtomIds.some(id => state.subAtoms.includes(id)) && 
+          this.areAllSubAtomsVerified(state.subAtoms) &&
+          !this.hasRejectedSubAtom(state.subAtoms)) {
+        
+        // All sub-atoms are verified, perform contraction
+        this.performContraction(decompId);
+      }
+    }
+  }
+
+  private areAllSubAtomsVerified(atomIds: string[]): boolean {
+    return atomIds.every(id => this.atoms[id] && this.atoms[id].isVerified);
+  }
+
+  // A refuted sub-atom blocks contraction of its decomposition
+  private hasRejectedSubAtom(atomIds: string[]): boolean {
+    return atomIds.some(id => this.atoms[id]?.isRejected);
+  }
+
+  private performContraction(decompositionId: string): void {
+    const state = this.decompositionStates[decompositionId];
+    if (!state) return;
+    if (this.hasRejectedSubAtom(state.subAtoms)) {
+      logger.warn(style.yellow(`⚠️ Contraction of ${decompositionId} blocked by a refuted sub-atom`), { event: 'contraction_blocked', decompositionId });
+      return;
+    }
+    
+    const originalAtom = this.atoms[state.originalAtomId];
+    if (!originalAtom) return;
+    
+    // Calculate combined confidence from sub-atoms
+    const subAtomConfidences = state.subAtoms.map(id => this.atoms[id]?.confidence || 0);
+    const averageConfidence = subAtomConfidences.reduce((sum, conf) => sum + conf, 0) / subAtomConfidences.length;
+    
+    // Mark the original atom as verified with the calculated confidence
+    const wasVerified = originalAtom.isVerified;
+    originalAtom.confidence = averageConfidence;
+    originalAtom.isVerified = true;
+    state.isContracted = true;
+    this.recordChange(originalAtom.atomId);
+    
+    logger.info(style.magenta(`🔄 Contracted decomposition ${decompositionId} back to atom ${state.originalAtomId} with confidence ${formatPercent(averageConfidence)}`), { event: 'contraction_performed', decompositionId, atomId: state.originalAtomId, confidence: averageConfidence });
+    if (!wasVerified) {
+      this.notify('atomVerified', { atom: structuredClone(originalAtom) });
+    }
+    this.notify('contractionPerformed', { decompositionId, atomId: state.originalAtomId, confidence: averageConfidence });
+
+    // The verified original atom may complete the decomposition it belongs to, contracting bottom-up
+    this.checkForContraction([originalAtom.atomId]);
+    
+    // If the contracted atom is a hypothesis and is verified with high confidence, 
+    // we might want to automatically create a conclusion based on it
+    if (originalAtom.atomType === 'hypothesis' && originalAtom.confidence >= this.settings.autoConclusionThreshold) {
+      this.suggestConclusion(originalAtom);
+    }
+  }
+
+  protected suggestConclusion(verifiedHypothesis: AtomData): string {
+    // Create a new conclusion atom based on the verified hypothesis
+    const conclusionId = `C${Object.keys(this.atoms).filter(id => id.startsWith('C')).length + 1}`;
+    
+    const conclusionAtom: AtomData = {
+      atomId: conclusionId,
+      content: `Based on verified hypothesis: ${verifiedHypothesis.content}`,
+      atomType: 'conclusion',
+      dependencies: [verifiedHypothesis.atomId],
+      confidence: verifiedHypothesis.confidence * this.settings.conclusionDiscount, // Slightly lower confidence for the derived conclusion
+      created: this.now(),
+      isVerified: false,
+      depth: verifiedHypothesis.depth, // Same depth as the hypothesis
+    };
+    
+    this.atoms[conclusionId] = conclusionAtom;
+    this.atomOrder.push(conclusionId);
+    this.recordChange(conclusionId);
+    
+    logger.info(style.green(`🏆 Suggested conclusion ${conclusionId} based on verified hypothesis ${verifiedHypothesis.atomId}`), { event: 'conclusion_suggested', atomId: conclusionId, hypothesisId: verifiedHypothesis.atomId });
+    this.notify('atomAdded', { atom: structuredClone(conclusionAtom), isNew: true });
+    this.notify('conclusionSuggested', { conclusion: structuredClone(conclusionAtom), hypothesisId: verifiedHypothesis.atomId });
+    
+    return conclusionId;
+  }
+
+  public getTerminationPolicy(): TerminationPolicy {
+    return structuredClone(this.terminationPolicy);
+  }
+
+  public setTerminationPolicy(policy: TerminationPolicy): void {
+    this.terminationPolicy = structuredClone(policy);
+    this.recordChange();
+  }
+
+  protected shouldTerminate(): boolean {
+    return this.getTerminationStatus().shouldTerminate;
+  }
+
+  // Evaluate the termination policy, reporting which of its conditions passed and which failed
+  public getTerminationStatus(): TerminationStatus {
+    const atoms = this.atomOrder.map(id => this.atoms[id]).filter(atom => !atom.isRetracted);
+    const hypotheses = atoms.filter(atom => atom.atomType === 'hypothesis');
+
+    return evaluateTerminationPolicy(this.terminationPolicy, {
+      maxDepth: this.maxDepth,
+      conclusionThreshold: this.settings.conclusionThreshold,
+      deepestAtom: Math.max(0, ...atoms.map(atom => atom.depth || 0)),
+      atomsCount: atoms.length,
+      verifiedConclusions: this.verifiedConclusions
+        .filter(id => this.atoms[id])
+        .map(id => ({
+          atomId: id,
+          confidence: this.atoms[id].confidence,
+          independentVerifications: this.countIndependentVerifications(id),
+        })),
+      unresolvedHypotheses: hypotheses.filter(atom => !atom.isVerified && !atom.isRejected).map(atom => atom.atomId),
+      hypothesesCount: hypotheses.length,
+      startedAt: atoms.length > 0 ? Math.min(...atoms.map(atom => atom.created)) : null,
+      now: this.now(),
+      stepsSinceNewAtom: this.stepsSinceNewAtom,
+    });
+  }
+
+  // Confirming verifications of an atom that do not build on one another
+  private countIndependentVerifications(atomId: string): number {
+    const verifications = this.getDependentAtoms(atomId).filter(id => this.confirms(this.atoms[id]));
+    return verifications.filter(id => {
+      const ancestors = this.getAncestors(id);
+      return !verifications.some(other => other !== id && ancestors.includes(other));
+    }).length;
+  }
+
+  // Get the best conclusion if we should terminate
+  public getBestConclusion(): AtomData | null {
+    if (this.verifiedConclusions.length === 0) return null;
+    
+    // Sort by confidence and return the highest
+    const sortedConclusions = [...this.verifiedConclusions]
+      .map(id => this.atoms[id])
+      .filter(atom => atom !== undefined)
+      .sort((a, b) => b.confidence - a.confidence);
+    
+    return sortedConclusions[0] || null;
+  }
+
+  // Walk the dependencies of an atom (the best conclusion by default) back to its premises
+  public explain(atomId?: string): Explanation {
+    const targetId = atomId ?? this.getBestConclusion()?.atomId;
+    if (!targetId) {
+      throw new Error('No verified conclusion to explain; pass atomId to explain another atom');
+    }
+    if (!this.atoms[targetId]) {
+      throw new Error(`Atom with ID ${targetId} not found`);
+    }
+
+    const expanded = new Set<string>();
+    const buildNode = (id: string): JustificationNode => {
+      const atom = this.atoms[id];
+      const node: JustificationNode = {
+        atomId: id,
+        atomType: atom.atomType,
+        content: atom.content,
+        confidence: atom.confidence,
+        propagatedConfidence: this.propagatedConfidence[id] ?? atom.confidence,
+        status: this.justificationStatus(atom),
+        verifiedBy: this.getDependentAtoms(id).filter(dependentId => this.confirms(this.atoms[dependentId])),
+        dependencies: [],
+      };
+
+      if (expanded.has(id)) {
+        node.repeated = true;
+        return node;
+      }
+      expanded.add(id);
+      node.dependencies = atom.dependencies.filter(depId => this.atoms[depId]).map(buildNode);
+      return node;
+    };
+
+    const ancestors = this.getAncestors(targetId).map(id => this.atoms[id]);
+    const weakest = ancestors.reduce<AtomData | null>(
+      (lowest, atom) => lowest === null || atom.confidence < lowest.confidence ? atom : lowest, null);
+
+    return {
+      atomId: targetId,
+      tree: buildNode(targetId),
+      weakestLink: weakest ? { atomId: weakest.atomId, confidence: weakest.confidence } : null,
+      unverifiedAssumptions: ancestors.filter(atom => !atom.isVerified).map(atom => atom.atomId),
+      premises: ancestors.filter(atom => atom.dependencies.length === 0).map(atom => atom.atomId),
+    };
+  }
+
+  private justificationStatus(atom: AtomData): JustificationStatus {
+    if (atom.isRetracted) return 'retracted';
+    if (atom.isRejected) return 'rejected';
+    if (atom.needsReverification) return 'needs_reverification';
+    return atom.isVerified ? 'verified' : 'unverified';
+  }
+
+  // Import the atoms of another graph, such as an AoT-light graph, after re-validating them
+  public importGraph(source: AtomGraphSnapshot): string[] {
+    const collisions = source.atomOrder.filter(id => this.atoms[id]);
+    if (collisions.length > 0) {
+      throw new Error(`Cannot import: atoms ${collisions.join(', ')} already exist in the target graph`);
+    }
+
+    const staging = new AtomOfThoughtsServer(source.maxDepth, this.settings);
+    staging.restoreSnapshot(source);
+    const order = staging.getTopologicalOrder();
+
+    const imported: AtomData[] = [];
+    for (const id of order) {
+      const atom = structuredClone(source.atoms[id]);
+      this.validateAtomData(atom);
+      for (const target of [...atom.dependencies, ...(atom.relations || []).map(relation => relation.target)]) {
+        if (!source.atoms[target]) {
+          throw new Error(`Cannot import: atom ${id} refers to missing atom ${target}`);
+        }
+        if (source.atoms[target].isRetracted && !atom.isRetracted && atom.dependencies.includes(target)) {
+          throw new Error(`Cannot import: atom ${id} depends on retracted atom ${target}`);
+        }
+      }
+      imported.push(atom);
+    }
+
+    // Only change this graph once every atom has passed validation
+    for (const atom of imported) {
+      if (atom.depth === undefined) {
+        const depthsOfDependencies = atom.dependencies.map(depId => this.atoms[depId].depth || 0);
+        atom.depth = depthsOfDependencies.length > 0 ? Math.max(...depthsOfDependencies) + 1 : 0;
+      }
+      this.atoms[atom.atomId] = atom;
+      this.atomOrder.push(atom.atomId);
+      if (source.atomHistory?.[atom.atomId]) {
+        this.atomHistory[atom.atomId] = structuredClone(source.atomHistory[atom.atomId]);
+      }
+      if (atom.atomType === 'conclusion' && atom.isVerified && !atom.isRetracted) {
+        this.verifiedConclusions.push(atom.atomId);
+      }
+      this.recordChange(atom.atomId);
+      this.notify('atomAdded', { atom: structuredClone(atom), isNew: true });
+    }
+    // Hypothesis sets come along when all of their alternatives were imported and the set ID is free
+    for (const set of Object.values(source.hypothesisSets || {})) {
+      if (!this.hypothesisSets[set.setId] && set.hypotheses.every(id => imported.some(atom => atom.atomId === id))) {
+        this.hypothesisSets[set.setId] = structuredClone(set);
+      }
+    }
+    this.propagateConfidence();
+
+    logger.info(style.green(`📥 Imported ${imported.length} atoms`), { event: 'graph_imported', atomIds: imported.map(atom => atom.atomId) });
+
+    return imported.map(atom => atom.atomId);
+  }
+
+  public getAtom(atomId: string): AtomData | null {
+    return this.atoms[atomId] ? structuredClone(this.atoms[atomId]) : null;
+  }
+
+  // Atoms in creation order that match every criterion of the filter
+  public findAtoms(filter: AtomFilter = {}): AtomData[] {
+    if (filter.decompositionId !== undefined && !this.decompositionStates[filter.decompositionId]) {
+      throw new Error(`Decomposition with ID ${filter.decompositionId} not found`);
+    }
+
+    const terms = (filter.query || '').toLowerCase().split(/\s+/).filter(term => term.length > 0);
+    const subAtoms = filter.decompositionId !== undefined ? this.decompositionStates[filter.decompositionId].subAtoms : null;
+
+    return this.atomOrder
+      .map(id => this.atoms[id])
+      .filter(atom => {
+        const depth = atom.depth || 0;
+        return (filter.atomType === undefined || atom.atomType === filter.atomType) &&
+          (filter.isVerified === undefined || atom.isVerified === filter.isVerified) &&
+          (filter.minDepth === undefined || depth >= filter.minDepth) &&
+          (filter.maxDepth === undefined || depth <= filter.maxDepth) &&
+          (filter.minConfidence === undefined || atom.confidence >= filter.minConfidence) &&
+          (filter.maxConfidence === undefined || atom.confidence <= filter.maxConfidence) &&
+          (subAtoms === null || subAtoms.includes(atom.atomId)) &&
+          terms.every(term => atom.content.toLowerCase().includes(term));
+      })
+      .map(atom => structuredClone(atom));
+  }
+
+  // Findings of the reasoning-quality rules in lint.ts, in graph order
+  public lint(): LintFinding[] {
+    return lintGraph({ atoms: this.atoms, atomOrder: this.atomOrder });
+  }
+
+  // Analytics for comparing reasoning runs, see stats.ts
+  public getStats(): GraphStats {
+    const graph = { atoms: this.atoms, atomOrder: this.atomOrder, decompositionStates: this.decompositionStates, maxDepth: this.maxDepth };
+    return computeStats(graph, this.getBestConclusion()?.atomId ?? null);
+  }
+
+  public getAtomIds(): string[] {
+    return [...this.atomOrder];
+  }
+
+  public getAtomCount(): number {
+    return Object.keys(this.atoms).length;
+  }
+
+  // Add or revise an atom and report what changed in the graph; throws when the atom is invalid
+  public addAtom(input: AtomInput): AtomResult {
+    const validatedInput = this.validateAtomData(input);
+    this.validateReferences(validatedInput);
+
+    // An explicit decompositionId takes precedence over the most recently started decomposition
+    this.validateDecompositionId(input.decompositionId);
+    const targetDecompositionId = input.decompositionId ?? this.getCurrentDecompositionId();
+
+    // Set depth based on dependencies if not specified
+    if (validatedInput.depth === undefined) {
+      const depthsOfDependencies = validatedInput.dependencies
+        .map(depId => (this.atoms[depId]?.depth !== undefined ? this.atoms[depId].depth! : 0))
+        .filter(depth => depth !== undefined);
+      
+      validatedInput.depth = depthsOfDependencies.length > 0
+        ? Math.max(...depthsOfDependencies) + 1
+        : 0;
+    }
+
+    // Check if this would exceed max depth
+    if (validatedInput.depth > this.maxDepth) {
+      logger.warn(style.yellow(`⚠️ Warning: Atom ${validatedInput.atomId} exceeds maximum depth ${this.maxDepth}`), { event: 'max_depth_exceeded', atomId: validatedInput.atomId, maxDepth: this.maxDepth });
+    }
+
+    // Store the atom, invalidating dependents if it replaces an earlier version
+    const invalidatedAtoms = this.storeAtom(validatedInput);
+
+    // Automatically add to the requested or current decomposition if there is one
+    let addedToDecomposition: string | null = null;
+    if (targetDecompositionId) {
+      try {
+        this.addToDecomposition(targetDecompositionId, validatedInput.atomId);
+        addedToDecomposition = targetDecompositionId;
+      } catch (e: any) {
+        logger.warn(`Could not add atom to decomposition ${targetDecompositionId}: ${e.message}`, { event: 'decomposition_add_failed', atomId: validatedInput.atomId, decompositionId: targetDecompositionId });
+      }
+    }
+
+    // Format and display the atom
+    if (this.settings.logAtoms) {
+      logger.block('info', `Stored ${validatedInput.atomType} ${validatedInput.atomId}`,
+        { event: 'atom_stored', atom: validatedInput }, () => this.formatAtom(validatedInput));
+    }
+
+    // If it's a verification atom with a verdict, apply it to the atoms it checked
+    const { rejectedAtoms, invalidatedAtoms: refutedDependents } = this.applyVerification(validatedInput);
+    invalidatedAtoms.push(...refutedDependents.filter(id => !invalidatedAtoms.includes(id)));
+
+    // Demote the alternatives of a newly verified hypothesis and keep hypothesis sets consistent
+    const changedSets = this.balanceAlternatives();
+
+    // Check for termination
+    const terminationStatus = this.getTerminationStatus();
+    let bestConclusion = null;
+    
+    if (terminationStatus.shouldTerminate) {
+      bestConclusion = this.getBestConclusion();
+      logger.info(style.red(`🛑 Termination condition met: ${terminationStatus.reason}`), { event: 'termination_reached', reason: terminationStatus.reason });
+      if (bestConclusion) {
+        logger.info(style.green(`🏆 Best conclusion: ${bestConclusion.atomId} - ${bestConclusion.content}`), { event: 'best_conclusion', atomId: bestConclusion.atomId });
+      }
+      this.notify('terminationReached', { status: terminationStatus, bestConclusion: summarizeConclusion(bestConclusion) });
+    }
+    
+    // Re-derive confidence downstream of everything this call changed
+    const propagationUpdates = this.propagateConfidence()
+      .filter(update => update.atomId !== validatedInput.atomId);
+
+    // Get atoms required for the response
+    const dependentAtoms = this.getDependentAtoms(validatedInput.atomId);
+    const conflictingAtoms = this.findConflictingAtoms(validatedInput);
+    const hypothesisSets = this.listHypothesisSets().filter(set => changedSets.includes(set.setId) ||
+      set.hypotheses.some(id => id === validatedInput.atomId || validatedInput.dependencies.includes(id)));
+    this.warnAboutAlternatives(hypothesisSets);
+
+    return {
+      atomId: validatedInput.atomId,
+      atomType: validatedInput.atomType,
+      isVerified: validatedInput.isVerified,
+      confidence: validatedInput.confidence,
+      statedConfidence: validatedInput.confidence,
+      propagatedConfidence: this.propagatedConfidence[validatedInput.atomId],
+      propagationStrategy: this.propagationStrategy,
+      propagationUpdates,
+      version: validatedInput.version,
+      verdict: validatedInput.verdict,
+      rejectedAtoms,
+      invalidatedAtoms,
+      depth: validatedInput.depth,
+      atomsCount: Object.keys(this.atoms).length,
+      dependentAtoms,
+      conflictingAtoms,
+      verifiedConclusions: this.verifiedConclusions,
+      terminationStatus,
+      bestConclusion: summarizeConclusion(bestConclusion),
+      currentDecomposition: this.getCurrentDecompositionId(),
+      addedToDecomposition,
+      ...(hypothesisSets.length > 0 ? { hypothesisSets } : {})
+    };
+  }
+
+  // addAtom as an MCP tool call, reporting failures in the response instead of throwing.
+  // With lintAtoms set, the response also lists the lint findings that were not there before the atom.
+  public processAtom(input: unknown): ToolResponse {
+    try {
+      if (!this.settings.lintAtoms) {
+        return this.toolResponse(this.addAtom(input as AtomInput));
+      }
+      const key = (finding: LintFinding) => `${finding.rule}:${finding.atomId}`;
+      const before = new Set(this.lint().map(key));
+      const result = this.addAtom(input as AtomInput);
+      return this.toolResponse({ ...result, lintFindings: this.lint().filter(finding => !before.has(key(finding))) });
+    } catch (error) {
+      return this.toolResponse({
+        error: error instanceof Error ? error.message : String(error),
+        status: 'failed'
+      }, true);
+    }
+  }
+
+  // Validate a batch of atoms as a unit and either store all of them or none
+  public addBatch(atoms: AtomInput[]): BatchResult {
+    if (!Array.isArray(atoms) || atoms.length === 0) {
+      return { status: 'rejected', errors: [{ index: null, atomId: null, error: 'Invalid atoms: must be a non-empty array' }] };
+    }
+
+    const items = atoms as unknown[];
+    const errors: BatchError[] = [];
+    const validated: Array<{ index: number; atom: AtomData }> = [];
+    const batchIds = new Set<string>();
+
+    items.forEach((item, index) => {
+      const rawId = item && typeof (item as Record<string, unknown>).atomId === 'string'
+        ? (item as Record<string, unknown>).atomId as string
+        : null;
+      try {
+        const atom = this.validateAtomData(item);
+        if (batchIds.has(atom.atomId)) {
+          throw new Error(`Duplicate atomId: ${atom.atomId} appears more than once in the batch`);
+        }
+        batchIds.add(atom.atomId);
+        validated.push({ index, atom });
+      } catch (error) {
+        errors.push({ index, atomId: rawId, error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+
+    // References may point at atoms later in the batch or already in the graph
+    for (const { index, atom } of validated) {
+      const problems: string[] = [];
+      for (const depId of atom.dependencies) {
+        if (depId === atom.atomId) {
+          problems.push(`atom ${atom.atomId} cannot depend on itself`);
+        } else if (!batchIds.has(depId) && !this.atoms[depId]) {
+          problems.push(`dependency ${depId} does not exist`);
+        } else if (!batchIds.has(depId) && this.atoms[depId].isRetracted) {
+          problems.push(`dependency ${depId} has been retracted`);
+        }
+      }
+      for (const relation of atom.relations || []) {
+        if (relation.target === atom.atomId) {
+          problems.push(`atom ${atom.atomId} cannot relate to itself`);
+        } else if (!batchIds.has(relation.target) && !this.atoms[relation.target]) {
+          problems.push(`relation target ${relation.target} does not exist`);
+        }
+      }
+      if (problems.length > 0) {
+        errors.push({ index, atomId: atom.atomId, error: `Invalid references: ${problems.join('; ')}` });
+      }
+    }
+
+    // Cycles and decompositions are checked against the graph as it will be once the batch is stored,
+    // so every bad item is reported instead of only the first one addAtom would fail on
+    const batchDependencies = new Map(validated.map(({ atom }) => [atom.atomId, atom.dependencies]));
+    const dependenciesOf = (atomId: string) => batchDependencies.get(atomId) ?? this.atoms[atomId]?.dependencies;
+    for (const { index, atom } of validated.filter(entry => !errors.some(error => error.index === entry.index))) {
+      try {
+        for (const depId of atom.dependencies) {
+          const path = this.findDependencyPath(depId, atom.atomId, new Set(), dependenciesOf);
+          if (path) {
+            throw new Error(`Invalid dependencies: cycle detected (${[atom.atomId, ...path].join(' -> ')})`);
+          }
+        }
+        this.validateDecompositionId((items[index] as Record<string, unknown>).decompositionId);
+      } catch (error) {
+        errors.push({ index, atomId: atom.atomId, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    // Order the batch so every atom comes after the batch atoms it depends on
+    const ordered: Array<{ index: number; atom: AtomData }> = [];
+    const placed = new Set<string>();
+    let pending = validated;
+    while (pending.length > 0) {
+      const ready = pending.filter(({ atom }) => atom.dependencies.every(depId => !batchIds.has(depId) || placed.has(depId)));
+      if (ready.length === 0) break;
+      ready.forEach(entry => {
+        ordered.push(entry);
+        placed.add(entry.atom.atomId);
+      });
+      pending = pending.filter(entry => !placed.has(entry.atom.atomId));
+    }
+    for (const { index, atom } of pending) {
+      if (!errors.some(error => error.index === index)) {
+        errors.push({ index, atomId: atom.atomId, error: 'Invalid dependencies: atom is part of a dependency cycle within the batch' });
+      }
+    }
+
+    if (errors.length > 0) {
+      return { status: 'rejected', errors: errors.sort((a, b) => (a.index ?? -1) - (b.index ?? -1)) };
+    }
+
+    // Apply in dependency order, rolling everything back on the first failure
+    const before = this.toSnapshot();
+    const results: Extract<BatchResult, { status: 'committed' }>['results'] = [];
+    this.heldEvents = [];
+    for (const { index, atom } of ordered) {
+      let result: AtomResult;
+      try {
+        result = this.addAtom(items[index] as AtomInput);
+      } catch (error) {
+        this.restoreSnapshot(before);
+        this.drainChanges(); // Nothing a subscriber could observe was left behind
+        this.heldEvents = null;
+        return {
+          status: 'rejected',
+          errors: [{ index, atomId: atom.atomId, error: error instanceof Error ? error.message : String(error) }],
+        };
+      }
+      results.push({
+        atomId: result.atomId,
+        atomType: result.atomType,
+        isVerified: result.isVerified,
+        confidence: result.confidence,
+        propagatedConfidence: result.propagatedConfidence,
+        depth: result.depth,
+        version: result.version,
+        rejectedAtoms: result.rejectedAtoms,
+        invalidatedAtoms: result.invalidatedAtoms,
+      });
+    }
+
+    logger.info(style.green(`📦 Committed batch of ${results.length} atoms`), { event: 'batch_committed', atomIds: results.map(result => result.atomId) });
+
+    const heldEvents = this.heldEvents;
+    this.heldEvents = null;
+    heldEvents.forEach(emit => emit());
+
+    return {
+      status: 'committed',
+      atomsCount: this.getAtomCount(),
+      results,
+      terminationStatus: this.getTerminationStatus(),
+      bestConclusion: summarizeConclusion(this.getBestConclusion()),
+      currentDecomposition: this.getCurrentDecompositionId()
+    };
+  }
+
+  // addBatch as an MCP tool call; a rejected batch is an error response listing the problems
+  public processBatch(input: unknown): ToolResponse {
+    const data = (input || {}) as Record<string, unknown>;
+    const result = this.addBatch(data.atoms as AtomInput[]);
+    return this.toolResponse(result, result.status === 'rejected');
+  }
+
+  private toolResponse(body: object, isError?: boolean): ToolResponse {
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(body, null, 2)
+      }],
+      ...(isError && { isError })
+    };
+  }
+
+  // Get atoms that depend on the given atom
+  private getDependentAtoms(atomId: string): string[] {
+    return Object.keys(this.atoms).filter(id => 
+      this.atoms[id].dependencies.includes(atomId)
+    );
+  }
+
+  // Find atoms linked to this one by a contradicts relation, in either direction
+  private findConflictingAtoms(atom: AtomData): string[] {
+    const contradicted = (atom.relations || [])
+      .filter(relation => relation.type === 'contradicts')
+      .map(relation => relation.target);
+
+    return this.atomOrder.filter(id => id !== atom.atomId && (
+      contradicted.includes(id) ||
+      (this.atoms[id].relations || []).some(relation => relation.type === 'contradicts' && relation.target === atom.atomId)
+    ));
+  }
+}
+
+// Creating a lightweight version of the AtomOfThoughtsServer
+export class AtomOfThoughtsLightServer extends AtomOfThoughtsServer {
+  constructor(maxDepth: number = 3, settings?: EngineSettings) {
+    // Lower max depth for faster processing
+    super(maxDepth, settings);
+  }
+
+  // Override to simplify the verification process
+  public addAtom(input: AtomInput): AtomResult {
+    const validatedInput = this.validateAtomData(input);
+    this.validateReferences(validatedInput);
+    
+    // Store the atom
+    const invalidatedAtoms = this.storeAtom(validatedInput);
+
+    // Format and display the atom with simplified output
+    if (this.settings.logAtoms) {
+      logger.block('info', `Stored ${validatedInput.atomType} ${validatedInput.atomId}`,
+        { event: 'atom_stored', atom: validatedInput }, () => this.formatAtom(validatedInput));
+    }
+
+    // Quick verification - if verification atom, immediately apply its verdict to dependencies
+    const { rejectedAtoms } = this.applyVerification(validatedInput);
+    this.balanceAlternatives();
+
+    // Faster conclusion suggestion - if hypothesis with high confidence, suggest conclusion immediately
+    if (validatedInput.atomType === 'hypothesis' && validatedInput.confidence >= this.settings.autoConclusionThreshold) {
+      this.suggestConclusion(validatedInput);
+    }
+
+    this.propagateConfidence();
+
+    // Simplified termination check
+    const terminationStatus = this.getTerminationStatus();
+    const bestConclusion = terminationStatus.shouldTerminate ? this.getBestConclusion() : null;
+    if (terminationStatus.shouldTerminate) {
+      this.notify('terminationReached', { status: terminationStatus, bestConclusion: summarizeConclusion(bestConclusion) });
+    }
+    
+    // Basic response with less processing
+    return {
+      atomId: validatedInput.atomId,
+      atomType: validatedInput.atomType,
+      isVerified: validatedInput.isVerified,
+      confidence: validatedInput.confidence,
+      propagatedConfidence: this.getPropagatedConfidence(validatedInput.atomId),
+      rejectedAtoms,
+      invalidatedAtoms,
+      atomsCount: Object.keys(this.atoms).length,
+      bestConclusion: summarizeConclusion(bestConclusion)
+    };
+  }
+}
+
+// The part of a conclusion reported in responses and events
+export function summarizeConclusion(conclusion: AtomData | null): ConclusionSummary | null {
+  return conclusion ? {
+    atomId: conclusion.atomId,
+    content: conclusion.content,
+    confidence: conclusion.confidence
+  } : null;
+}
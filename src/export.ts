@@ -0,0 +1,236 @@
+import { formatPercent } from './render.js';
+import { AtomData, AtomGraphSnapshot, AtomType } from './types.js';
+
+export type ExportFormat = 'mermaid' | 'dot' | 'json' | 'markdown';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['mermaid', 'dot', 'json', 'markdown'];
+
+const TYPE_SYMBOLS: Record<AtomType, string> = {
+  premise: '🔍',
+  reasoning: '🧠',
+  hypothesis: '💡',
+  verification: '✓',
+  conclusion: '🏆',
+};
+
+const TYPE_COLORS: Record<AtomType, string> = {
+  premise: '#4e79a7',
+  reasoning: '#59a14f',
+  hypothesis: '#edc948',
+  verification: '#b07aa1',
+  conclusion: '#e15759',
+};
+
+// Longest content shown inside a diagram node before it is truncated
+const LABEL_LENGTH = 80;
+
+export function exportGraph(graph: AtomGraphSnapshot, format: ExportFormat): string {
+  switch (format) {
+    case 'mermaid':
+      return toMermaid(graph);
+    case 'dot':
+      return toDot(graph);
+    case 'json':
+      return toCanonicalJson(graph);
+    case 'markdown':
+      return toMarkdown(graph);
+    default:
+      throw new Error(`Invalid format: must be one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+}
+
+export function toMermaid(graph: AtomGraphSnapshot): string {
+  const lines = ['graph TD'];
+  const atoms = orderedAtoms(graph);
+
+  for (const atom of atoms) {
+    const header = `${TYPE_SYMBOLS[atom.atomType]} ${atom.atomId} · ${atom.atomType} · ${formatPercent(atom.confidence)}`;
+    lines.push(`  ${mermaidId(atom.atomId)}["${escapeMermaid(header)}<br/>${escapeMermaid(truncate(atom.content))}"]:::${atom.atomType}`);
+  }
+
+  for (const atom of atoms) {
+    for (const depId of atom.dependencies) {
+      lines.push(`  ${mermaidId(depId)} --> ${mermaidId(atom.atomId)}`);
+    }
+  }
+
+  for (const [decompositionId, state] of Object.entries(graph.decompositionStates)) {
+    for (const subAtomId of state.subAtoms) {
+      lines.push(`  ${mermaidId(state.originalAtomId)} -.->|${escapeMermaid(decompositionId)}| ${mermaidId(subAtomId)}`);
+    }
+  }
+
+  for (const atom of atoms) {
+    for (const relation of atom.relations || []) {
+      lines.push(`  ${mermaidId(atom.atomId)} -. ${relation.type} .-> ${mermaidId(relation.target)}`);
+    }
+  }
+
+  for (const [atomType, color] of Object.entries(TYPE_COLORS)) {
+    lines.push(`  classDef ${atomType} stroke:${color},stroke-width:2px`);
+  }
+
+  const verified = atoms.filter(atom => atom.isVerified).map(atom => mermaidId(atom.atomId));
+  if (verified.length > 0) {
+    lines.push('  classDef verified stroke-width:4px');
+    lines.push(`  class ${verified.join(',')} verified`);
+  }
+
+  const rejected = atoms.filter(atom => atom.isRejected || atom.isRetracted).map(atom => mermaidId(atom.atomId));
+  if (rejected.length > 0) {
+    lines.push('  classDef rejected stroke-dasharray:5 5');
+    lines.push(`  class ${rejected.join(',')} rejected`);
+  }
+
+  return lines.join('\n');
+}
+
+export function toDot(graph: AtomGraphSnapshot): string {
+  const lines = [
+    'digraph AtomOfThoughts {',
+    '  rankdir=TB;',
+    '  node [shape=box, style=rounded];',
+  ];
+  const atoms = orderedAtoms(graph);
+
+  for (const atom of atoms) {
+    const label = `${atom.atomId} (${atom.atomType})${atom.isVerified ? ' ✓' : ''}\nconfidence ${formatPercent(atom.confidence)}\n${truncate(atom.content)}`;
+    const penwidth = atom.isVerified ? 3 : 1;
+    lines.push(`  ${dotString(atom.atomId)} [label=${dotString(label)}, color="${TYPE_COLORS[atom.atomType]}", penwidth=${penwidth}];`);
+  }
+
+  for (const atom of atoms) {
+    for (const depId of atom.dependencies) {
+      lines.push(`  ${dotString(depId)} -> ${dotString(atom.atomId)};`);
+    }
+  }
+
+  for (const [decompositionId, state] of Object.entries(graph.decompositionStates)) {
+    for (const subAtomId of state.subAtoms) {
+      lines.push(`  ${dotString(state.originalAtomId)} -> ${dotString(subAtomId)} [style=dashed, label=${dotString(decompositionId)}];`);
+    }
+  }
+
+  for (const atom of atoms) {
+    for (const relation of atom.relations || []) {
+      const color = relation.type === 'contradicts' ? 'red' : 'gray';
+      lines.push(`  ${dotString(atom.atomId)} -> ${dotString(relation.target)} [style=dotted, color=${color}, label=${dotString(relation.type)}];`);
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// Stable output for diffing: atoms follow atomOrder and object keys are sorted
+export function toCanonicalJson(graph: AtomGraphSnapshot): string {
+  return JSON.stringify(canonicalize({
+    atoms: orderedAtoms(graph),
+    decompositions: Object.keys(graph.decompositionStates).sort().map(decompositionId => ({
+      decompositionId,
+      ...graph.decompositionStates[decompositionId],
+    })),
+    verifiedConclusions: graph.verifiedConclusions,
+    maxDepth: graph.maxDepth,
+  }), null, 2);
+}
+
+export function toMarkdown(graph: AtomGraphSnapshot): string {
+  const atoms = orderedAtoms(graph);
+  const bestConclusion = findBestConclusion(graph);
+  const lines = [
+    '# Atom of Thoughts Report',
+    '',
+    `- Atoms: ${atoms.length} (${atoms.filter(atom => atom.isVerified).length} verified)`,
+    `- Maximum depth: ${graph.maxDepth}`,
+    `- Best conclusion: ${bestConclusion ? `${bestConclusion.atomId} (${formatPercent(bestConclusion.confidence)}) - ${bestConclusion.content}` : 'none'}`,
+    '',
+    '## Atoms',
+  ];
+
+  atoms.forEach((atom, index) => {
+    lines.push(
+      '',
+      `### ${index + 1}. ${TYPE_SYMBOLS[atom.atomType]} ${atom.atomId} - ${atom.atomType}${formatStatus(atom)}`,
+      '',
+      atom.content,
+      '',
+      `- Confidence: ${formatPercent(atom.confidence)}`,
+      `- Depth: ${atom.depth !== undefined ? `${atom.depth}/${graph.maxDepth}` : 'unknown'}`,
+      `- Depends on: ${atom.dependencies.length > 0 ? atom.dependencies.join(', ') : 'none'}`,
+      ...(atom.relations && atom.relations.length > 0
+        ? [`- Relations: ${atom.relations.map(relation => `${relation.type} ${relation.target}`).join(', ')}`]
+        : []),
+      ...(atom.verdict ? [`- Verdict: ${atom.verdict}`] : []),
+      `- Version: ${atom.version || 1}`,
+    );
+  });
+
+  const decompositions = Object.entries(graph.decompositionStates);
+  if (decompositions.length > 0) {
+    lines.push(
+      '',
+      '## Decompositions',
+      '',
+      '| Decomposition | Original atom | Sub-atoms | Status |',
+      '| --- | --- | --- | --- |',
+    );
+    for (const [decompositionId, state] of decompositions) {
+      const subAtoms = state.subAtoms.length > 0 ? state.subAtoms.join(', ') : '-';
+      const status = state.isAborted ? 'aborted'
+        : state.isContracted ? 'contracted'
+        : state.isCompleted ? 'completed'
+        : 'in progress';
+      lines.push(`| ${decompositionId} | ${state.originalAtomId} | ${subAtoms} | ${status} |`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatStatus(atom: AtomData): string {
+  if (atom.isRetracted) return ' (✗ Retracted)';
+  if (atom.isRejected) return ' (✗ Rejected)';
+  if (atom.needsReverification) return ' (⚠ Needs re-verification)';
+  return atom.isVerified ? ' (✓ Verified)' : '';
+}
+
+function orderedAtoms(graph: AtomGraphSnapshot): AtomData[] {
+  return graph.atomOrder.map(id => graph.atoms[id]).filter(atom => atom !== undefined);
+}
+
+function findBestConclusion(graph: AtomGraphSnapshot): AtomData | null {
+  return graph.verifiedConclusions
+    .map(id => graph.atoms[id])
+    .filter(atom => atom !== undefined)
+    .sort((a, b) => b.confidence - a.confidence)[0] || null;
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(Object.keys(record).sort().map(key => [key, canonicalize(record[key])]));
+  }
+  return value;
+}
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > LABEL_LENGTH ? `${singleLine.slice(0, LABEL_LENGTH - 1)}…` : singleLine;
+}
+
+// Mermaid node IDs may only contain word characters
+function mermaidId(atomId: string): string {
+  return `atom_${atomId.replace(/[^A-Za-z0-9_]/g, char => `_${char.charCodeAt(0)}_`)}`;
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
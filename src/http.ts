@@ -0,0 +1,106 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+import { logger, style } from './logger.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  path: string;
+}
+
+export const DEFAULT_HTTP_OPTIONS: HttpServerOptions = {
+  host: '127.0.0.1',
+  port: 3000,
+  path: '/mcp',
+};
+
+// The MCP server of a new client, and what to do once the transport accepted its initialize request
+export interface HttpClient {
+  server: Server;
+  initialize: () => void;
+}
+
+// Creates a new client; sessionId is the reasoning session requested in the URL, if any
+export type ConnectClient = (sessionId?: string) => HttpClient;
+
+// Serve MCP over Streamable HTTP, with one MCP server and transport per client session
+export async function startHttpServer(options: HttpServerOptions, connectClient: ConnectClient): Promise<http.Server> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+      if (url.pathname !== options.path) {
+        sendError(res, 404, `Not found: use ${options.path}`);
+        return;
+      }
+
+      const mcpSessionId = req.headers['mcp-session-id'];
+      if (typeof mcpSessionId === 'string') {
+        const transport = transports.get(mcpSessionId);
+        if (!transport) {
+          sendError(res, 404, `Session ${mcpSessionId} not found`);
+          return;
+        }
+        await transport.handleRequest(req, res);
+        return;
+      }
+
+      if (req.method !== 'POST') {
+        sendError(res, 400, 'Missing Mcp-Session-Id header');
+        return;
+      }
+
+      // A request without a session must initialize one; the transport rejects anything else
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          transports.set(id, transport);
+          client.initialize();
+        },
+      });
+      const client = connectClient(url.searchParams.get('sessionId') || undefined);
+      const server = client.server;
+      const onclose = server.onclose;
+      server.onclose = () => {
+        onclose?.();
+        if (transport.sessionId) {
+          transports.delete(transport.sessionId);
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
+
+      if (!transport.sessionId) {
+        await server.close();
+      }
+    } catch (error) {
+      logger.error(style.red(`HTTP request failed: ${error instanceof Error ? error.message : String(error)}`), { event: 'http_request_failed' });
+      if (!res.headersSent) {
+        sendError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
+
+function sendError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  }));
+}
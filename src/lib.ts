@@ -0,0 +1,25 @@
+// Public API for embedding the reasoning engine. Importing this module starts nothing;
+// the MCP server and the command-line interface are started from index.ts only.
+export { AtomOfThoughtsLightServer, AtomOfThoughtsServer, ENGINE_EVENTS } from './engine.js';
+export type { AtomOfThoughtsEvents, EngineEventName, ToolResponse } from './engine.js';
+export { DEFAULT_SESSION_ID, SessionManager } from './sessions.js';
+export type { DiffSide, ReasoningSession } from './sessions.js';
+export { DEFAULT_CONFIG, DEFAULT_ENGINE_SETTINGS, engineSettings, loadConfig, validateConfig } from './config.js';
+export type { AotConfig, EngineSettings, LoadedConfig } from './config.js';
+export { DEFAULT_PROPAGATION_STRATEGY, PROPAGATION_STRATEGIES, combineConfidence } from './confidence.js';
+export type { PropagationStrategy } from './confidence.js';
+export { DEFAULT_TERMINATION_POLICY, TERMINATION_CONDITION_TYPES, validateTerminationPolicy } from './termination.js';
+export type { TerminationCondition, TerminationConditionType, TerminationPolicy, TerminationStatus } from './termination.js';
+export { LINT_RULES, LINT_SEVERITIES, groupFindings, lintGraph } from './lint.js';
+export type { LintFinding, LintRule, LintRuleId, LintSeverity } from './lint.js';
+export { computeStats } from './stats.js';
+export type { GraphStats } from './stats.js';
+export { diffGraphs } from './diff.js';
+export type { AtomChange, ComparedField, GraphDiff } from './diff.js';
+export { EXPORT_FORMATS, exportGraph, toCanonicalJson, toDot, toMarkdown, toMermaid } from './export.js';
+export type { ExportFormat } from './export.js';
+export { renderAtom, renderTree } from './render.js';
+export type { RenderOptions } from './render.js';
+export { Logger, logger } from './logger.js';
+export type { LogFormat, LogLevel, LoggerOptions } from './logger.js';
+export type * from './types.js';
@@ -0,0 +1,121 @@
+import { formatPercent } from './render.js';
+import { AtomData, AtomGraphSnapshot } from './types.js';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+// Most severe first
+export const LINT_SEVERITIES: LintSeverity[] = ['error', 'warning', 'info'];
+
+export type LintRuleId =
+  | 'unverified_conclusion'
+  | 'rests_on_rejected'
+  | 'overconfident'
+  | 'unverified_hypothesis'
+  | 'unused_premise'
+  | 'needs_reverification';
+
+export interface LintRule {
+  id: LintRuleId;
+  severity: LintSeverity;
+  description: string;
+}
+
+export const LINT_RULES: LintRule[] = [
+  { id: 'unverified_conclusion', severity: 'error', description: 'A conclusion neither rests on nor is confirmed by any verification atom' },
+  { id: 'rests_on_rejected', severity: 'error', description: 'An atom depends on an atom that a verification refuted' },
+  { id: 'overconfident', severity: 'warning', description: 'An atom claims a higher confidence than every dependency it rests on' },
+  { id: 'unverified_hypothesis', severity: 'warning', description: 'A hypothesis has no verification atom checking it' },
+  { id: 'unused_premise', severity: 'info', description: 'No other atom depends on or relates to a premise' },
+  { id: 'needs_reverification', severity: 'info', description: 'Something an atom rests on was revised or retracted since it was verified' },
+];
+
+export interface LintFinding {
+  rule: LintRuleId;
+  severity: LintSeverity;
+  atomId: string;
+  message: string;
+}
+
+// Check the shape of the reasoning in a graph. Retracted atoms are ignored, both as subjects and as dependencies.
+export function lintGraph(graph: Pick<AtomGraphSnapshot, 'atoms' | 'atomOrder'>): LintFinding[] {
+  const atoms = graph.atomOrder.map(id => graph.atoms[id]).filter(atom => atom && !atom.isRetracted);
+  const live = (id: string) => graph.atoms[id] && !graph.atoms[id].isRetracted ? graph.atoms[id] : undefined;
+  const dependenciesOf = (atom: AtomData) => atom.dependencies.map(live).filter((dependency): dependency is AtomData => dependency !== undefined);
+  const verifiersOf = (atomId: string) => atoms.filter(atom => atom.atomType === 'verification' && atom.dependencies.includes(atomId));
+
+  const ancestors: Record<string, AtomData[]> = {};
+  const ancestorsOf = (atom: AtomData): AtomData[] => {
+    if (!ancestors[atom.atomId]) {
+      ancestors[atom.atomId] = [];
+      const found = new Map<string, AtomData>();
+      for (const dependency of dependenciesOf(atom)) {
+        [dependency, ...ancestorsOf(dependency)].forEach(ancestor => found.set(ancestor.atomId, ancestor));
+      }
+      ancestors[atom.atomId] = [...found.values()];
+    }
+    return ancestors[atom.atomId];
+  };
+
+  const findings: LintFinding[] = [];
+  const report = (rule: LintRuleId, atomId: string, message: string) => {
+    findings.push({ rule, severity: LINT_RULES.find(candidate => candidate.id === rule)!.severity, atomId, message });
+  };
+
+  for (const atom of atoms) {
+    const dependencies = dependenciesOf(atom);
+
+    if (atom.atomType === 'conclusion') {
+      const restsOnVerification = ancestorsOf(atom).some(ancestor => ancestor.atomType === 'verification' && ancestor.verdict !== 'refuted');
+      const confirmed = verifiersOf(atom.atomId).some(verification => verification.verdict !== 'refuted');
+      if (!restsOnVerification && !confirmed) {
+        report('unverified_conclusion', atom.atomId, `Conclusion ${atom.atomId} does not rest on any verification atom and none confirms it`);
+      }
+    }
+
+    // A verification that refuted an atom depends on it by design
+    if (atom.atomType !== 'verification') {
+      const rejected = dependencies.filter(dependency => dependency.isRejected);
+      if (rejected.length > 0) {
+        report('rests_on_rejected', atom.atomId, `${atom.atomId} depends on rejected ${rejected.map(dependency => dependency.atomId).join(', ')}`);
+      }
+    }
+
+    // The confidence of a verification atom rates the check, not the claim it checked, and rejected
+    // dependencies had their confidence lowered by the refutation, which rests_on_rejected reports
+    const standing = dependencies.filter(dependency => !dependency.isRejected);
+    if (atom.atomType !== 'verification' && standing.length > 0) {
+      const strongest = Math.max(...standing.map(dependency => dependency.confidence));
+      if (atom.confidence > strongest) {
+        report('overconfident', atom.atomId,
+          `${atom.atomId} claims ${formatPercent(atom.confidence)} but its strongest dependency is at ${formatPercent(strongest)}`);
+      }
+    }
+
+    if (atom.atomType === 'hypothesis' && !atom.isVerified && !atom.isRejected && verifiersOf(atom.atomId).length === 0) {
+      report('unverified_hypothesis', atom.atomId, `Hypothesis ${atom.atomId} has not been checked by a verification atom`);
+    }
+
+    if (atom.atomType === 'premise') {
+      const used = atoms.some(other => other.dependencies.includes(atom.atomId)
+        || (other.relations || []).some(relation => relation.target === atom.atomId));
+      if (!used) {
+        report('unused_premise', atom.atomId, `Premise ${atom.atomId} is not used by any other atom`);
+      }
+    }
+
+    if (atom.needsReverification) {
+      report('needs_reverification', atom.atomId, `${atom.atomId} rests on an atom that was revised or retracted and should be verified again`);
+    }
+  }
+
+  return findings;
+}
+
+// Findings grouped by the atom they are about, in graph order
+export function groupFindings(findings: LintFinding[]): Record<string, Array<Omit<LintFinding, 'atomId'>>> {
+  const grouped: Record<string, Array<Omit<LintFinding, 'atomId'>>> = {};
+  for (const { atomId, ...finding } of findings) {
+    (grouped[atomId] ||= []).push(finding);
+  }
+  return grouped;
+}
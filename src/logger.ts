@@ -0,0 +1,107 @@
+import { Chalk, ChalkInstance, supportsColorStderr } from 'chalk';
+import { stripAnsi } from './render.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+export type LogFormat = 'pretty' | 'json';
+
+export const LOG_FORMATS: LogFormat[] = ['pretty', 'json'];
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+  color: boolean;
+}
+
+// Structured data attached to a log line; event names the kind of line for machines reading JSON logs
+export type LogFields = { event?: string } & Record<string, unknown>;
+
+const DETECTED_COLOR_LEVEL = supportsColorStderr ? supportsColorStderr.level : 0;
+
+// Leveled logger writing to stderr, which stays free for logs while stdio carries the MCP protocol.
+// Pretty lines are meant for people, JSON lines carry the same message and fields for machines.
+export class Logger {
+  private options: LoggerOptions = { level: 'info', format: 'pretty', color: true };
+  // Colors for pretty messages; switched off with the color option or when stderr is not a terminal
+  public readonly style: ChalkInstance = new Chalk({ level: DETECTED_COLOR_LEVEL });
+
+  constructor(private write: (line: string) => void = line => process.stderr.write(`${line}\n`)) {}
+
+  public configure(options: Partial<LoggerOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.style.level = this.options.color ? DETECTED_COLOR_LEVEL : 0;
+  }
+
+  public getOptions(): LoggerOptions {
+    return { ...this.options };
+  }
+
+  // Columns available to pretty output
+  public get width(): number {
+    return process.stderr.columns || 80;
+  }
+
+  public isEnabled(level: LogLevel): boolean {
+    return level !== 'silent' && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.options.level);
+  }
+
+  public debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  public info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  public warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  public error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  // A multi-line rendering such as an atom box in pretty mode; JSON logs get the message and fields instead
+  public block(level: LogLevel, message: string, fields: LogFields, render: () => string): void {
+    if (!this.isEnabled(level)) return;
+
+    if (this.options.format === 'json') {
+      this.writeJson(level, message, fields);
+    } else {
+      this.writePretty(render());
+    }
+  }
+
+  public log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isEnabled(level)) return;
+
+    if (this.options.format === 'json') {
+      this.writeJson(level, message, fields);
+    } else {
+      this.writePretty(message);
+    }
+  }
+
+  private writePretty(text: string): void {
+    this.write(this.options.color ? text : stripAnsi(text));
+  }
+
+  private writeJson(level: LogLevel, message: string, fields?: LogFields): void {
+    const { event, ...data } = fields || {};
+    this.write(JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      ...(event !== undefined && { event }),
+      message: stripAnsi(message),
+      ...data,
+    }));
+  }
+}
+
+// Shared by the engine, the session manager and the transports
+export const logger = new Logger();
+
+// Colors for pretty log messages, following the logger's color option
+export const style = logger.style;
@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JournalEntry, SessionSnapshot } from './types.js';
+
+export interface StoredGraphInfo {
+  name: string;
+  savedAt: number;
+  sequence: number;
+  atomsCount: number;
+  lightAtomsCount: number;
+  pendingJournalEntries: number;
+}
+
+// File-based store keeping one snapshot and one append-only journal per graph
+export class AtomStore {
+  constructor(public readonly directory: string, public readonly snapshotInterval: number = 25) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  public appendJournal(name: string, entry: JournalEntry): void {
+    fs.appendFileSync(this.journalPath(name), JSON.stringify(entry) + '\n', 'utf8');
+  }
+
+  // Write the snapshot atomically, then drop the journal entries it already covers
+  public writeSnapshot(name: string, snapshot: SessionSnapshot): void {
+    const snapshotPath = this.snapshotPath(name);
+    const tempPath = `${snapshotPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(snapshot, null, 2), 'utf8');
+    fs.renameSync(tempPath, snapshotPath);
+
+    if (fs.existsSync(this.journalPath(name))) {
+      const remaining = this.readJournal(name, snapshot.sequence);
+      fs.writeFileSync(this.journalPath(name), remaining.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf8');
+    }
+  }
+
+  public readSnapshot(name: string): SessionSnapshot | null {
+    const snapshotPath = this.snapshotPath(name);
+    if (!fs.existsSync(snapshotPath)) return null;
+
+    return JSON.parse(fs.readFileSync(snapshotPath, 'utf8')) as SessionSnapshot;
+  }
+
+  // Read journal entries recorded after the given sequence number
+  public readJournal(name: string, afterSequence: number = 0): JournalEntry[] {
+    const journalPath = this.journalPath(name);
+    if (!fs.existsSync(journalPath)) return [];
+
+    const entries: JournalEntry[] = [];
+    const lines = fs.readFileSync(journalPath, 'utf8').split('\n');
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        entries.push(JSON.parse(line) as JournalEntry);
+      } catch {
+        // A torn write can only happen on the last line; anything else is corruption
+        if (index < lines.length - 2) {
+          throw new Error(`Corrupted journal ${journalPath} at line ${index + 1}`);
+        }
+      }
+    });
+
+    return entries.filter(entry => entry.sequence > afterSequence);
+  }
+
+  public hasGraph(name: string): boolean {
+    return fs.existsSync(this.snapshotPath(name)) || fs.existsSync(this.journalPath(name));
+  }
+
+  public listGraphs(): StoredGraphInfo[] {
+    const names = new Set<string>();
+    for (const file of fs.readdirSync(this.directory)) {
+      const match = file.match(/^(.*)\.(snapshot\.json|journal\.jsonl)$/);
+      if (match) {
+        names.add(decodeURIComponent(match[1]));
+      }
+    }
+
+    return [...names].sort().map(name => {
+      const snapshot = this.readSnapshot(name);
+      const journal = this.readJournal(name, snapshot ? snapshot.sequence : 0);
+      return {
+        name,
+        savedAt: snapshot ? snapshot.savedAt : 0,
+        sequence: journal.length > 0 ? journal[journal.length - 1].sequence : (snapshot ? snapshot.sequence : 0),
+        atomsCount: snapshot ? Object.keys(snapshot.full.atoms).length : 0,
+        lightAtomsCount: snapshot ? Object.keys(snapshot.light.atoms).length : 0,
+        pendingJournalEntries: journal.length,
+      };
+    });
+  }
+
+  public deleteGraph(name: string): void {
+    fs.rmSync(this.snapshotPath(name), { force: true });
+    fs.rmSync(this.journalPath(name), { force: true });
+  }
+
+  private snapshotPath(name: string): string {
+    return path.join(this.directory, `${encodeURIComponent(name)}.snapshot.json`);
+  }
+
+  private journalPath(name: string): string {
+    return path.join(this.directory, `${encodeURIComponent(name)}.journal.jsonl`);
+  }
+}
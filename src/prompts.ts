@@ -0,0 +1,148 @@
+import { Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { toMarkdown } from './export.js';
+import { formatPercent } from './render.js';
+import { TerminationStatus } from './termination.js';
+import { AtomData, AtomGraphSnapshot, Explanation } from './types.js';
+
+export type PromptName = 'decompose_problem' | 'verify_hypothesis' | 'red_team_conclusion' | 'summarize_graph';
+
+const SESSION_ARGUMENT = {
+  name: 'sessionId',
+  description: 'Reasoning session to use (defaults to the active session)',
+  required: false,
+};
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'decompose_problem',
+    description: 'Decompose a problem into premises and start an Atom of Thoughts graph for it',
+    arguments: [
+      { name: 'problem', description: 'The question or problem to reason about', required: true },
+      SESSION_ARGUMENT,
+    ],
+  },
+  {
+    name: 'verify_hypothesis',
+    description: 'Check a hypothesis (or any other atom) independently and record the verdict as a verification atom',
+    arguments: [
+      { name: 'atomId', description: 'ID of the atom to verify', required: true },
+      SESSION_ARGUMENT,
+    ],
+  },
+  {
+    name: 'red_team_conclusion',
+    description: 'Attack the current best conclusion, starting from its weakest link and unverified assumptions',
+    arguments: [
+      { name: 'atomId', description: 'Conclusion to attack (defaults to the best verified conclusion)', required: false },
+      SESSION_ARGUMENT,
+    ],
+  },
+  {
+    name: 'summarize_graph',
+    description: 'Summarise the reasoning graph of a session for a reader who has not followed it',
+    arguments: [SESSION_ARGUMENT],
+  },
+];
+
+export const PROMPT_NAMES: PromptName[] = PROMPTS.map(prompt => prompt.name as PromptName);
+
+export function decomposeProblemPrompt(problem: string, sessionId: string, existingAtomIds: string[]): string {
+  return [
+    'Use the Atom of Thoughts tools to reason about the following problem step by step.',
+    '',
+    'Problem:',
+    problem,
+    '',
+    'First decompose it into premises:',
+    '1. List every fact that is given in the problem or that the answer depends on. Each fact becomes one `premise` atom (IDs P1, P2, ...) without dependencies, with a confidence that reflects how certain the fact is.',
+    '2. Keep each premise atomic: one claim that can be checked on its own. Split compound statements.',
+    '3. Submit the premises together with `AoT-batch` (or one by one with `AoT`).',
+    '4. Then build `reasoning` and `hypothesis` atoms on top of the premises, verify hypotheses with `verification` atoms and finish with a `conclusion`. Use `atomcommands` `decompose` for any atom that is still too complex to verify directly.',
+    '',
+    existingAtomIds.length > 0
+      ? `Session ${sessionId} already holds the atoms ${existingAtomIds.join(', ')}; choose IDs that are not taken, or use another session.`
+      : `Session ${sessionId} is empty.`,
+    `Pass sessionId "${sessionId}" with every call.`,
+  ].join('\n');
+}
+
+export function verifyHypothesisPrompt(
+  sessionId: string,
+  atom: AtomData,
+  ancestors: AtomData[],
+  verifications: AtomData[],
+  verificationId: string,
+): string {
+  return [
+    `Verify atom ${atom.atomId} of session ${sessionId} independently.`,
+    '',
+    `${atom.atomId} (${atom.atomType}, confidence ${formatPercent(atom.confidence)}${atom.isVerified ? ', verified' : ''}):`,
+    atom.content,
+    '',
+    ancestors.length > 0 ? 'It rests on:' : 'It does not depend on any other atom.',
+    ...ancestors.map(describeAtom),
+    ...(verifications.length > 0
+      ? ['', 'Earlier verifications:', ...verifications.map(verification => `${describeAtom(verification)} [${verification.verdict || 'no verdict'}]`)]
+      : []),
+    '',
+    'Check the claim itself rather than restating the reasoning that led to it: look for a direct test, a calculation, a counterexample or a source that would confirm or refute it.',
+    `Then record the result with \`AoT\` as a \`verification\` atom with atomId "${verificationId}", dependencies ["${atom.atomId}"], sessionId "${sessionId}" and a verdict:`,
+    '- `confirmed` if the check supports the claim',
+    '- `refuted` if it contradicts the claim (this rejects the atom and lowers its confidence)',
+    '- `inconclusive` if the check could not decide',
+    'Set the confidence of the verification atom to how reliable the check itself is.',
+  ].join('\n');
+}
+
+export function redTeamPrompt(sessionId: string, conclusion: AtomData, explanation: Explanation, atoms: Record<string, AtomData>): string {
+  const weakest = explanation.weakestLink ? atoms[explanation.weakestLink.atomId] : null;
+  const unverified = explanation.unverifiedAssumptions.map(id => atoms[id]).filter(atom => atom !== undefined);
+
+  return [
+    `Red-team conclusion ${conclusion.atomId} of session ${sessionId}: try hard to show that it is wrong.`,
+    '',
+    `${conclusion.atomId} (confidence ${formatPercent(conclusion.confidence)}):`,
+    conclusion.content,
+    '',
+    'Its premises:',
+    ...explanation.premises.map(id => atoms[id]).filter(atom => atom !== undefined).map(describeAtom),
+    '',
+    weakest ? `Weakest link: ${describeAtom(weakest).slice(2)}` : 'No weakest link: the conclusion has no dependencies.',
+    ...(unverified.length > 0
+      ? ['', 'Unverified assumptions it still rests on:', ...unverified.map(describeAtom)]
+      : ['', 'Every atom it rests on has been verified.']),
+    '',
+    'Attack it from several directions:',
+    '1. Challenge the weakest link and each unverified assumption: are they true, and are they true in this case?',
+    '2. Look for alternative explanations that fit the same premises, and record them as `hypothesis` atoms with a `contradicts` relation to the conclusion.',
+    '3. Look for counterexamples and hidden assumptions in the reasoning steps between the premises and the conclusion.',
+    `4. Record every check with \`AoT\` as a \`verification\` atom (sessionId "${sessionId}") whose verdict is \`refuted\` if the attacked atom fails and \`confirmed\` if it survives.`,
+    '',
+    'Finish with an honest assessment of whether the conclusion still stands and how its confidence should change.',
+  ].join('\n');
+}
+
+export function summarizeGraphPrompt(sessionId: string, graph: AtomGraphSnapshot, termination: TerminationStatus): string {
+  return [
+    `Summarise the Atom of Thoughts reasoning of session ${sessionId} for a reader who has not followed it.`,
+    '',
+    'Cover:',
+    '- the question being answered',
+    '- the key premises and how certain they are',
+    '- the main line of reasoning from the premises to the conclusion, naming atom IDs',
+    '- the conclusion and its confidence, or why there is none yet',
+    '- hypotheses that were refuted, and assumptions that are still unverified',
+    '- what should be checked next',
+    '',
+    `Termination status: ${termination.shouldTerminate ? 'reached' : 'not reached'} (${termination.reason})`,
+    '',
+    'The graph:',
+    '',
+    toMarkdown(graph),
+  ].join('\n');
+}
+
+function describeAtom(atom: AtomData): string {
+  const status = atom.isRetracted ? ', retracted' : atom.isRejected ? ', rejected' : atom.isVerified ? ', verified' : '';
+  return `- ${atom.atomId} (${atom.atomType}, confidence ${formatPercent(atom.confidence)}${status}): ${atom.content}`;
+}
@@ -0,0 +1,199 @@
+import { Chalk, ChalkInstance } from 'chalk';
+import { AtomData, AtomGraphSnapshot, AtomType } from './types.js';
+
+export interface RenderOptions {
+  width?: number; // Total width in terminal columns, defaults to 80
+  style?: ChalkInstance; // Colors to use, none by default
+}
+
+const DEFAULT_WIDTH = 80;
+
+// Narrowest box or tree line worth drawing, however small the terminal
+const MIN_WIDTH = 44;
+
+const TYPE_SYMBOLS: Record<AtomType, string> = {
+  premise: '🔍',
+  reasoning: '🧠',
+  hypothesis: '💡',
+  verification: '✓',
+  conclusion: '🏆',
+};
+
+const TYPE_COLORS: Record<AtomType, 'blue' | 'green' | 'yellow' | 'magenta' | 'red'> = {
+  premise: 'blue',
+  reasoning: 'green',
+  hypothesis: 'yellow',
+  verification: 'magenta',
+  conclusion: 'red',
+};
+
+const PLAIN = new Chalk({ level: 0 });
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+// Confidences and shares of them are shown as whole percentages throughout
+export function formatPercent(confidence: number): string {
+  return `${(confidence * 100).toFixed(0)}%`;
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+// Columns a string occupies in a terminal: escape codes take none, emoji and CJK characters take two
+export function visibleWidth(text: string): number {
+  let width = 0;
+  for (const char of stripAnsi(text)) {
+    width += charWidth(char.codePointAt(0)!);
+  }
+  return width;
+}
+
+function charWidth(code: number): number {
+  if (code === 0x200d || (code >= 0xfe00 && code <= 0xfe0f) || (code >= 0x0300 && code <= 0x036f)) {
+    return 0;
+  }
+  if ((code >= 0x1100 && code <= 0x115f) || (code >= 0x2e80 && code <= 0xa4cf) ||
+      (code >= 0xac00 && code <= 0xd7a3) || (code >= 0xf900 && code <= 0xfaff) ||
+      (code >= 0xfe30 && code <= 0xfe4f) || (code >= 0xff00 && code <= 0xff60) ||
+      (code >= 0xffe0 && code <= 0xffe6) || (code >= 0x1f300 && code <= 0x1faff) ||
+      (code >= 0x20000 && code <= 0x3fffd)) {
+    return 2;
+  }
+  return 1;
+}
+
+// Pad with spaces up to a visible width, ignoring escape codes
+export function padVisible(text: string, width: number): string {
+  return text + ' '.repeat(Math.max(0, width - visibleWidth(text)));
+}
+
+// Cut plain text down to a visible width, marking the cut with an ellipsis
+export function truncateVisible(text: string, width: number): string {
+  if (visibleWidth(text) <= width) return text;
+
+  let result = '';
+  let used = 0;
+  for (const char of text) {
+    const charColumns = charWidth(char.codePointAt(0)!);
+    if (used + charColumns > width - 1) break;
+    result += char;
+    used += charColumns;
+  }
+  return `${result}…`;
+}
+
+// Wrap plain text at word boundaries, keeping its own line breaks and splitting words longer than a line
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(word => word.length > 0)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (visibleWidth(candidate) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        lines.push(line);
+      }
+      line = '';
+      let rest = word;
+      while (visibleWidth(rest) > width) {
+        let chunk = '';
+        for (const char of rest) {
+          if (chunk && visibleWidth(chunk + char) > width) break;
+          chunk += char;
+        }
+        lines.push(chunk);
+        rest = rest.slice(chunk.length);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+export function renderConfidenceBar(confidence: number, style: ChalkInstance = PLAIN): string {
+  const barLength = 20;
+  const filledBars = Math.round(confidence * barLength);
+  const emptyBars = barLength - filledBars;
+
+  return `Confidence: [${style.green('█'.repeat(filledBars))}${style.gray('░'.repeat(emptyBars))}] ${formatPercent(confidence)}`;
+}
+
+// A single atom as a box, with its content wrapped to fit the width
+export function renderAtom(atom: AtomData, maxDepth: number, options: RenderOptions = {}): string {
+  const style = options.style || PLAIN;
+  const innerWidth = Math.max(MIN_WIDTH, options.width || DEFAULT_WIDTH) - 4;
+  const { atomId, content, atomType, dependencies, confidence, isVerified, depth } = atom;
+
+  const depthInfo = depth !== undefined ? ` [Depth: ${depth}/${maxDepth}]` : '';
+  const headerText = `${TYPE_SYMBOLS[atomType]} ${atomType.toUpperCase()}: ${atomId}${depthInfo}${isVerified ? ' (✓ Verified)' : ''}`;
+  const headerLines = wrapText(headerText, innerWidth).map(line => style[TYPE_COLORS[atomType]](line));
+  const contentLines = wrapText(content, innerWidth);
+  const confidenceBar = renderConfidenceBar(confidence, style);
+  const dependencyLines = wrapText(dependencies.length > 0 ? `Dependencies: ${dependencies.join(', ')}` : 'No dependencies', innerWidth);
+
+  const body = [...contentLines, confidenceBar, ...dependencyLines];
+  const width = Math.min(innerWidth, Math.max(...[...headerLines, ...body].map(visibleWidth)));
+  const border = '─'.repeat(width + 2);
+  const row = (line: string) => `│ ${padVisible(line, width)} │`;
+
+  return [
+    `┌${border}┐`,
+    ...headerLines.map(row),
+    `├${border}┤`,
+    ...body.map(row),
+    `└${border}┘`,
+  ].join('\n');
+}
+
+// The whole graph as a tree growing from the atoms without dependencies to the atoms built on them.
+// An atom with several dependencies is drawn under each of them, but only expanded the first time.
+export function renderTree(graph: AtomGraphSnapshot, options: RenderOptions = {}): string {
+  const style = options.style || PLAIN;
+  const width = Math.max(MIN_WIDTH, options.width || DEFAULT_WIDTH);
+  const atoms = graph.atomOrder.map(id => graph.atoms[id]).filter(atom => atom !== undefined);
+  const dependents: Record<string, string[]> = {};
+  for (const atom of atoms) {
+    for (const depId of atom.dependencies) {
+      (dependents[depId] ||= []).push(atom.atomId);
+    }
+  }
+
+  const lines = [`Atom graph: ${atoms.length} atoms, maximum depth ${graph.maxDepth}`];
+  const expanded = new Set<string>();
+
+  const visit = (atom: AtomData, prefix: string, connector: string, childPrefix: string) => {
+    const repeated = expanded.has(atom.atomId);
+    const status = atom.isRetracted ? ' ✗ retracted'
+      : atom.isRejected ? ' ✗ rejected'
+      : atom.needsReverification ? ' ⚠ needs re-verification'
+      : atom.isVerified ? ' ✓' : '';
+    const label = `${TYPE_SYMBOLS[atom.atomType]} ${atom.atomId} ${formatPercent(atom.confidence)}${status}`;
+    const lead = `${prefix}${connector}`;
+    const room = width - visibleWidth(lead) - visibleWidth(label) - 3;
+    const detail = repeated ? '(see above)' : atom.content.replace(/\s+/g, ' ').trim();
+    const text = room > 0 ? ` - ${truncateVisible(detail, room)}` : '';
+    lines.push(`${lead}${style[TYPE_COLORS[atom.atomType]](label)}${repeated ? style.gray(text) : text}`);
+
+    if (repeated) return;
+    expanded.add(atom.atomId);
+
+    const children = (dependents[atom.atomId] || []).map(id => graph.atoms[id]);
+    children.forEach((child, index) => {
+      const last = index === children.length - 1;
+      visit(child, prefix + childPrefix, last ? '└─ ' : '├─ ', last ? '   ' : '│  ');
+    });
+  };
+
+  const roots = atoms.filter(atom => atom.dependencies.every(depId => !graph.atoms[depId]));
+  roots.forEach((root, index) => {
+    const last = index === roots.length - 1;
+    visit(root, '', last ? '└─ ' : '├─ ', last ? '   ' : '│  ');
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,777 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  CallToolRequest,
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  ListToolsRequestSchema,
+  LoggingLevel,
+  McpError,
+  ReadResourceRequestSchema,
+  ServerNotification,
+  ServerRequest,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { LoadedConfig, ToolName } from './config.js';
+import { AtomOfThoughtsEvents, ENGINE_EVENTS, EngineEventName, ToolResponse } from './engine.js';
+import { toCanonicalJson } from './export.js';
+import { DEFAULT_HTTP_OPTIONS, HttpClient, startHttpServer } from './http.js';
+import { logger, style } from './logger.js';
+import { PROMPTS, decomposeProblemPrompt, redTeamPrompt, summarizeGraphPrompt, verifyHypothesisPrompt } from './prompts.js';
+import { formatPercent } from './render.js';
+import { ReasoningSession, SESSION_CHANGING_COMMANDS, SessionManager } from './sessions.js';
+import { TOOLS } from './tools.js';
+import { DecompositionNode } from './types.js';
+
+// Created when the server starts, so offline CLI commands never touch the storage directory
+let sessionManager: SessionManager;
+let serverConfig: LoadedConfig;
+
+// A connected MCP client. Clients bound to a session use it wherever others use the globally active session
+interface ClientConnection {
+  server: Server;
+  sessionId?: string;
+  subscriptions: Set<string>;
+  logLevel: LoggingLevel; // Least severe engine event sent to the client as a logging notification
+}
+
+type RequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// An engine event raised while a tool call was running
+type EngineEvent = { [K in EngineEventName]: { name: K; payload: AtomOfThoughtsEvents[K][0] } }[EngineEventName];
+
+// MCP logging levels, least severe first
+const LOGGING_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const clients = new Set<ClientConnection>();
+
+// atomcommands commands that discard or replace the graphs of a session
+const GRAPH_REPLACING_COMMANDS = ['reset_session', 'load', 'restore'];
+
+// Server setup, one server per connected client
+function connectClient(): ClientConnection {
+  const server = new Server(
+    {
+      name: "atom-of-thoughts",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        prompts: {},
+        logging: {},
+      },
+    }
+  );
+  const client: ClientConnection = { server, subscriptions: new Set(), logLevel: 'info' };
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: serverConfig.config.tools.map(name => TOOLS[name]),
+  }));
+  server.setRequestHandler(ListResourcesRequestSchema, async () => listResources(client));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => listResourceTemplates());
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: [{
+      uri: request.params.uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(readResource(client, request.params.uri), null, 2),
+    }],
+  }));
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    client.subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    client.subscriptions.delete(request.params.uri);
+    return {};
+  });
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: PROMPTS }));
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => getPrompt(client, request.params.name, request.params.arguments || {}));
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    client.logLevel = request.params.level;
+    return {};
+  });
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => callTool(client, request, extra));
+
+  server.onclose = () => {
+    clients.delete(client);
+  };
+  clients.add(client);
+
+  return client;
+}
+
+// The session a client works on when a call names none
+function activeSessionIdFor(client: ClientConnection): string {
+  return client.sessionId ?? sessionManager.getActiveSessionId();
+}
+
+// Lookups driven by the request's arguments fail as invalid params rather than internal errors
+function asInvalidParams<T>(lookup: () => T): T {
+  try {
+    return lookup();
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Resource URIs either refer to the active session (aot://graph) or name one (aot://sessions/{sessionId}/graph)
+function parseResourceUri(client: ClientConnection, uri: string): { session: ReasoningSession; path: string } {
+  if (!uri.startsWith('aot://')) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+
+  const parts = uri.slice('aot://'.length).split('/');
+  if (parts[0] === 'sessions' && parts.length > 2) {
+    return { session: asInvalidParams(() => sessionManager.getSession(decodeURIComponent(parts[1]))), path: parts.slice(2).join('/') };
+  }
+  return { session: sessionManager.getSession(activeSessionIdFor(client)), path: parts.join('/') };
+}
+
+function readResource(client: ClientConnection, uri: string): unknown {
+  if (uri === 'aot://sessions') {
+    return listSessionsFor(client);
+  }
+
+  const { session, path: resourcePath } = parseResourceUri(client, uri);
+  if (resourcePath === 'graph') {
+    return JSON.parse(toCanonicalJson(session.full.toSnapshot()));
+  }
+  if (resourcePath === 'conclusions/best') {
+    return session.full.getBestConclusion();
+  }
+  if (resourcePath.startsWith('atoms/')) {
+    const atomId = decodeURIComponent(resourcePath.slice('atoms/'.length));
+    const atom = session.full.getAtom(atomId);
+    if (!atom) {
+      throw new McpError(ErrorCode.InvalidParams, `Atom with ID ${atomId} not found`);
+    }
+    return atom;
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
+
+// URIs under which a session path is published, including the short form for the active session
+function resourceUrisFor(client: ClientConnection, session: ReasoningSession, resourcePath: string): string[] {
+  const uris = [`aot://sessions/${encodeURIComponent(session.sessionId)}/${resourcePath}`];
+  if (session.sessionId === activeSessionIdFor(client)) {
+    uris.push(`aot://${resourcePath}`);
+  }
+  return uris;
+}
+
+function captureResourceState(session: ReasoningSession): { bestConclusion: string; atomsCount: number } {
+  return {
+    bestConclusion: JSON.stringify(session.full.getBestConclusion()),
+    atomsCount: session.full.getAtomCount(),
+  };
+}
+
+// Notify subscribers about everything the last tool call changed in a session
+async function publishResourceChanges(session: ReasoningSession, before: { bestConclusion: string; atomsCount: number }): Promise<void> {
+  session.light.drainChanges();
+  const { atomIds, graphChanged } = session.full.drainChanges();
+
+  const changedPaths = atomIds.map(atomId => `atoms/${encodeURIComponent(atomId)}`);
+  if (graphChanged) {
+    changedPaths.push('graph');
+  }
+  if (JSON.stringify(session.full.getBestConclusion()) !== before.bestConclusion) {
+    changedPaths.push('conclusions/best');
+  }
+
+  // Every client sharing the session is notified, each under the URIs it sees the session by
+  for (const client of clients) {
+    const changedUris = changedPaths.flatMap(resourcePath => resourceUrisFor(client, session, resourcePath));
+    if (graphChanged) {
+      changedUris.push('aot://sessions');
+    }
+
+    try {
+      for (const uri of changedUris.filter(uri => client.subscriptions.has(uri))) {
+        await client.server.sendResourceUpdated({ uri });
+      }
+      if (session.full.getAtomCount() !== before.atomsCount && session.sessionId === activeSessionIdFor(client)) {
+        await client.server.sendResourceListChanged();
+      }
+    } catch (e: any) {
+      logger.error(style.red(`Could not send resource notifications: ${e.message}`), { event: 'notification_failed' });
+    }
+  }
+}
+
+// Session-wide changes (reset, load, switch, ...) can affect any subscribed resource
+async function publishAllResourceChanges(): Promise<void> {
+  for (const client of clients) {
+    try {
+      for (const uri of client.subscriptions) {
+        await client.server.sendResourceUpdated({ uri });
+      }
+      await client.server.sendResourceListChanged();
+    } catch (e: any) {
+      logger.error(style.red(`Could not send resource notifications: ${e.message}`), { event: 'notification_failed' });
+    }
+  }
+}
+
+// Sessions as one client sees them, marking its own active session
+function listSessionsFor(client: ClientConnection) {
+  const activeSessionId = activeSessionIdFor(client);
+  return sessionManager.listSessions().map(session => ({ ...session, active: session.sessionId === activeSessionId }));
+}
+
+function listResources(client: ClientConnection) {
+  const session = sessionManager.getSession(activeSessionIdFor(client));
+  return {
+    resources: [
+      {
+        uri: 'aot://graph',
+        name: `Atom graph of session ${session.sessionId}`,
+        description: 'All atoms, dependencies and decompositions of the active session',
+        mimeType: 'application/json',
+      },
+      {
+        uri: 'aot://conclusions/best',
+        name: 'Best conclusion',
+        description: 'The verified conclusion with the highest confidence in the active session',
+        mimeType: 'application/json',
+      },
+      {
+        uri: 'aot://sessions',
+        name: 'Sessions',
+        description: 'All reasoning sessions and their atom counts',
+        mimeType: 'application/json',
+      },
+      ...session.full.getAtomIds().map(atomId => ({
+        uri: `aot://atoms/${encodeURIComponent(atomId)}`,
+        name: `Atom ${atomId}`,
+        mimeType: 'application/json',
+      })),
+    ],
+  };
+}
+
+function listResourceTemplates() {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: 'aot://atoms/{atomId}',
+        name: 'Atom of the active session',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: 'aot://sessions/{sessionId}/graph',
+        name: 'Atom graph of a session',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: 'aot://sessions/{sessionId}/atoms/{atomId}',
+        name: 'Atom of a session',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: 'aot://sessions/{sessionId}/conclusions/best',
+        name: 'Best conclusion of a session',
+        mimeType: 'application/json',
+      },
+    ],
+  };
+}
+
+// Prompts are filled in from the current state of the named session, or the client's active session
+function getPrompt(client: ClientConnection, name: string, args: Record<string, string>): GetPromptResult {
+  const prompt = PROMPTS.find(candidate => candidate.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  for (const argument of prompt.arguments || []) {
+    if (argument.required && !args[argument.name]) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${name}: ${argument.name} is required`);
+    }
+  }
+
+  const session = asInvalidParams(() => sessionManager.getSession(args.sessionId || activeSessionIdFor(client)));
+  const graph = session.full;
+  let text: string;
+  switch (name) {
+    case 'decompose_problem':
+      text = decomposeProblemPrompt(args.problem, session.sessionId, graph.getAtomIds());
+      break;
+
+    case 'verify_hypothesis': {
+      const atom = graph.getAtom(args.atomId);
+      if (!atom) {
+        throw new McpError(ErrorCode.InvalidParams, `Atom with ID ${args.atomId} not found`);
+      }
+      const atoms = graph.getAtomIds().map(id => graph.getAtom(id)!);
+      const verifications = atoms.filter(candidate =>
+        candidate.atomType === 'verification' && candidate.dependencies.includes(atom.atomId));
+      let next = 1;
+      while (graph.getAtom(`V${next}`)) {
+        next++;
+      }
+      text = verifyHypothesisPrompt(
+        session.sessionId,
+        atom,
+        graph.getAncestors(atom.atomId).map(id => graph.getAtom(id)!),
+        verifications,
+        `V${next}`,
+      );
+      break;
+    }
+
+    case 'red_team_conclusion': {
+      const explanation = asInvalidParams(() => graph.explain(args.atomId || undefined));
+      const snapshot = graph.toSnapshot();
+      text = redTeamPrompt(session.sessionId, snapshot.atoms[explanation.atomId], explanation, snapshot.atoms);
+      break;
+    }
+
+    default:
+      text = summarizeGraphPrompt(session.sessionId, graph.toSnapshot(), graph.getTerminationStatus());
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+// Run a tool call against a session, then tell subscribers what changed and the caller what happened
+async function executeCall(
+  client: ClientConnection,
+  extra: RequestExtra,
+  session: ReasoningSession,
+  tool: string,
+  args: Record<string, unknown>,
+): Promise<ToolResponse> {
+  const before = captureResourceState(session);
+  const events: EngineEvent[] = [];
+  const subscriptions = [session.full, session.light].flatMap(engine => ENGINE_EVENTS.map(name => {
+    const listener = (payload: unknown) => events.push({ name, payload } as EngineEvent);
+    engine.on(name, listener);
+    return () => engine.off(name, listener);
+  }));
+
+  let response: ToolResponse;
+  try {
+    response = sessionManager.execute(session, tool, args);
+  } finally {
+    subscriptions.forEach(unsubscribe => unsubscribe());
+  }
+
+  await publishResourceChanges(session, before);
+  await sendEventNotifications(client, extra, session, events);
+  return response;
+}
+
+// Engine events go to the calling client as logging notifications, and decomposition progress as
+// progress notifications when the call asked for them with a progress token
+async function sendEventNotifications(client: ClientConnection, extra: RequestExtra, session: ReasoningSession, events: EngineEvent[]): Promise<void> {
+  try {
+    for (const event of events) {
+      const { level, ...data } = describeEngineEvent(event);
+      if (LOGGING_LEVELS.indexOf(level) >= LOGGING_LEVELS.indexOf(client.logLevel)) {
+        await extra.sendNotification({ method: 'notifications/message', params: { level, logger: 'atom-of-thoughts', data } });
+      }
+    }
+
+    const progressToken = extra._meta?.progressToken;
+    const decomposition = progressToken !== undefined ? findProgressedDecomposition(session, events) : null;
+    if (progressToken !== undefined && decomposition) {
+      const { verified, total } = decomposition.progress;
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress: verified,
+          total,
+          message: `Decomposition ${decomposition.decompositionId} of ${decomposition.originalAtomId}: ${verified} of ${total} sub-atoms verified`,
+        },
+      });
+    }
+  } catch (e: any) {
+    logger.error(style.red(`Could not send event notifications: ${e.message}`), { event: 'notification_failed' });
+  }
+}
+
+function describeEngineEvent(event: EngineEvent): { level: LoggingLevel; event: string; message: string } & Record<string, unknown> {
+  switch (event.name) {
+    case 'atomAdded': {
+      const { atom, isNew } = event.payload;
+      return { level: 'debug', event: 'atom_stored', message: `${isNew ? 'Stored' : 'Revised'} ${atom.atomType} ${atom.atomId}`, atom };
+    }
+    case 'atomVerified':
+      return { level: 'info', event: 'atom_verified', message: `Atom ${event.payload.atom.atomId} verified`, atomId: event.payload.atom.atomId };
+    case 'atomRefuted': {
+      const { atomId, verificationId, confidence } = event.payload;
+      return { level: 'warning', event: 'atom_refuted', message: `Atom ${atomId} refuted by ${verificationId}, confidence lowered to ${formatPercent(confidence)}`, ...event.payload };
+    }
+    case 'atomRetracted': {
+      const { atomId, invalidatedAtoms } = event.payload;
+      return { level: 'info', event: 'atom_retracted', message: `Retracted atom ${atomId}${invalidatedAtoms.length > 0 ? `, invalidated ${invalidatedAtoms.join(', ')}` : ''}`, ...event.payload };
+    }
+    case 'decompositionStarted':
+      return { level: 'info', event: 'decomposition_started', message: `Started decomposition ${event.payload.decompositionId} of atom ${event.payload.atomId}`, ...event.payload };
+    case 'decompositionCompleted':
+      return { level: 'info', event: 'decomposition_completed', message: `Completed decomposition ${event.payload.decompositionId}`, ...event.payload };
+    case 'contractionPerformed': {
+      const { decompositionId, atomId, confidence } = event.payload;
+      return { level: 'notice', event: 'contraction_performed', message: `Contracted decomposition ${decompositionId} back to atom ${atomId} with confidence ${formatPercent(confidence)}`, ...event.payload };
+    }
+    case 'conclusionSuggested': {
+      const { conclusion, hypothesisId } = event.payload;
+      return { level: 'notice', event: 'conclusion_suggested', message: `Suggested conclusion ${conclusion.atomId} based on verified hypothesis ${hypothesisId}: ${conclusion.content}`, atomId: conclusion.atomId, hypothesisId, conclusion };
+    }
+    case 'terminationReached': {
+      const { status, bestConclusion } = event.payload;
+      const best = bestConclusion ? `; best conclusion ${bestConclusion.atomId} (${formatPercent(bestConclusion.confidence)})` : '';
+      return { level: 'notice', event: 'termination_reached', message: `Termination condition met: ${status.reason}${best}`, reason: status.reason, bestConclusion };
+    }
+  }
+}
+
+// The decomposition touched by the most recent event of a call that has sub-atoms to report on
+function findProgressedDecomposition(session: ReasoningSession, events: EngineEvent[]): DecompositionNode | null {
+  const decompositions: DecompositionNode[] = [];
+  const collect = (nodes: DecompositionNode[]) => nodes.forEach(node => {
+    decompositions.push(node);
+    collect(node.children);
+  });
+  collect(session.full.listDecompositions());
+
+  for (const event of [...events].reverse()) {
+    const payload = event.payload as { decompositionId?: string; atomId?: string; atom?: { atomId: string } };
+    const atomId = payload.atomId ?? payload.atom?.atomId;
+    const decomposition = payload.decompositionId !== undefined
+      ? decompositions.find(node => node.decompositionId === payload.decompositionId)
+      : [...decompositions].reverse().find(node => atomId !== undefined && node.subAtoms.includes(atomId) && node.status !== 'aborted');
+    if (decomposition && decomposition.progress.total > 0) {
+      return decomposition;
+    }
+  }
+  return null;
+}
+
+async function callTool(client: ClientConnection, request: CallToolRequest, extra: RequestExtra): Promise<ToolResponse> {
+  if (!serverConfig.config.tools.includes(request.params.name as ToolName)) {
+    return {
+      content: [{
+        type: "text",
+        text: TOOLS[request.params.name as ToolName] ? `Tool ${request.params.name} is disabled` : `Unknown tool: ${request.params.name}`
+      }],
+      isError: true
+    };
+  }
+
+  if (request.params.name === "AoT" || request.params.name === "AoT-light" || request.params.name === "AoT-batch") {
+    const args = (request.params.arguments || {}) as Record<string, unknown>;
+    let session: ReasoningSession;
+    try {
+      session = sessionManager.getSession((args.sessionId as string | undefined) ?? client.sessionId);
+      if (args.engine !== undefined && args.engine !== 'full' && args.engine !== 'light') {
+        throw new Error('engine must be one of full, light');
+      }
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            error: error instanceof Error ? error.message : String(error),
+            status: 'failed'
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+
+    return executeCall(client, extra, session, request.params.name, args);
+  } else if (request.params.name === "atomcommands") {
+    try {
+      const params = request.params.arguments as Record<string, unknown>;
+      const command = params.command as string;
+      const sessionId = (params.sessionId as string | undefined) ?? client.sessionId;
+
+      // Another client's graph is never pulled out from under it
+      if (GRAPH_REPLACING_COMMANDS.includes(command)) {
+        const targetId = sessionManager.getSession(sessionId).sessionId;
+        if ([...clients].some(other => other !== client && other.sessionId === targetId)) {
+          throw new Error(`Session ${targetId} is in use by another connected client`);
+        }
+      }
+      
+      let result: any;
+      
+      switch (command) {
+        case 'create_session':
+          const createdSession = sessionManager.createSession(params.sessionId as string | undefined);
+          result = {
+            status: 'success',
+            command: 'create_session',
+            sessionId: createdSession.sessionId,
+            message: `Created session ${createdSession.sessionId}`
+          };
+          break;
+
+        case 'list_sessions':
+          result = {
+            status: 'success',
+            command: 'list_sessions',
+            activeSessionId: activeSessionIdFor(client),
+            sessions: listSessionsFor(client)
+          };
+          break;
+
+        case 'switch_session':
+          const switchId = params.sessionId as string;
+          if (!switchId) throw new Error('sessionId is required for switch_session command');
+
+          // A client bound to a session switches only itself
+          if (client.sessionId !== undefined) {
+            client.sessionId = sessionManager.getSession(switchId).sessionId;
+          } else {
+            sessionManager.switchSession(switchId);
+          }
+          result = {
+            status: 'success',
+            command: 'switch_session',
+            sessionId: switchId,
+            message: `Switched to session ${switchId}`
+          };
+          break;
+
+        case 'reset_session':
+          const resetSession = sessionManager.resetSession(sessionId);
+          result = {
+            status: 'success',
+            command: 'reset_session',
+            sessionId: resetSession.sessionId,
+            message: `Reset session ${resetSession.sessionId}`
+          };
+          break;
+
+        case 'delete_session':
+          const deleteId = params.sessionId as string;
+          if (!deleteId) throw new Error('sessionId is required for delete_session command');
+          if ([...clients].some(other => other.sessionId === deleteId)) {
+            throw new Error(`Session ${deleteId} is in use by a connected client`);
+          }
+
+          const deleted = sessionManager.deleteSession(deleteId);
+          result = {
+            status: 'success',
+            command: 'delete_session',
+            deleted,
+            message: `Deleted session ${deleteId}`
+          };
+          break;
+
+        case 'save':
+          const savedName = sessionManager.saveSession(sessionId, params.name as string | undefined);
+          result = {
+            status: 'success',
+            command: 'save',
+            name: savedName,
+            message: `Saved graph as ${savedName}`
+          };
+          break;
+
+        case 'load':
+          const graphName = params.name as string;
+          if (!graphName) throw new Error('name is required for load command');
+
+          const loadedSession = sessionManager.loadSession(graphName, sessionId);
+          result = {
+            status: 'success',
+            command: 'load',
+            name: graphName,
+            sessionId: loadedSession.sessionId,
+            atomsCount: loadedSession.full.getAtomCount(),
+            message: `Loaded graph ${graphName} into session ${loadedSession.sessionId}`
+          };
+          break;
+
+        case 'checkpoint':
+          const checkpoint = sessionManager.createCheckpoint(sessionId, params.name as string | undefined);
+          result = {
+            status: 'success',
+            command: 'checkpoint',
+            name: checkpoint.name,
+            atomsCount: checkpoint.full.atomOrder.length,
+            lightAtomsCount: checkpoint.light.atomOrder.length,
+            message: `Created checkpoint ${checkpoint.name}`
+          };
+          break;
+
+        case 'list_checkpoints':
+          result = {
+            status: 'success',
+            command: 'list_checkpoints',
+            checkpoints: sessionManager.listCheckpoints(sessionId)
+          };
+          break;
+
+        case 'restore':
+          const checkpointName = params.name as string;
+          if (!checkpointName) throw new Error('name is required for restore command');
+
+          const restoredSession = sessionManager.restoreCheckpoint(checkpointName, sessionId);
+          result = {
+            status: 'success',
+            command: 'restore',
+            name: checkpointName,
+            sessionId: restoredSession.sessionId,
+            atomsCount: restoredSession.full.getAtomCount(),
+            message: `Restored session ${restoredSession.sessionId} to checkpoint ${checkpointName}`
+          };
+          break;
+
+        case 'fork':
+          const branch = sessionManager.forkSession(sessionId, params.name as string | undefined);
+          result = {
+            status: 'success',
+            command: 'fork',
+            sessionId: branch.sessionId,
+            forkedFrom: branch.forkedFrom,
+            atomsCount: branch.full.getAtomCount(),
+            message: `Forked session ${branch.forkedFrom} into ${branch.sessionId}; pass sessionId or switch_session to continue on the branch`
+          };
+          break;
+
+        case 'diff':
+          const diffFrom = params.from as string;
+          if (!diffFrom) throw new Error('from is required for diff command');
+          const diffEngine = (params.engine as 'full' | 'light' | undefined) || 'full';
+          if (diffEngine !== 'full' && diffEngine !== 'light') throw new Error('engine must be one of full, light');
+
+          const graphDiff = sessionManager.diff(diffFrom, params.to as string | undefined, sessionId, diffEngine);
+          result = {
+            status: 'success',
+            command: 'diff',
+            engine: diffEngine,
+            ...graphDiff,
+            message: `${graphDiff.added.length} added, ${graphDiff.removed.length} removed, ${graphDiff.changed.length} changed, `
+              + `${graphDiff.verificationFlips.length} verification flips; best conclusion ${graphDiff.bestConclusion.changed ? 'changed' : 'unchanged'}`
+          };
+          break;
+
+        case 'list_saved':
+          result = {
+            status: 'success',
+            command: 'list_saved',
+            graphs: sessionManager.listStoredGraphs()
+          };
+          break;
+
+        case 'get_config':
+          result = {
+            status: 'success',
+            command: 'get_config',
+            config: serverConfig.config,
+            sources: serverConfig.sources,
+            file: serverConfig.file
+          };
+          break;
+
+        default:
+          return await executeCall(client, extra, sessionManager.getSession(sessionId), 'atomcommands', params);
+      }
+
+      if (SESSION_CHANGING_COMMANDS.includes(command)) {
+        await publishAllResourceChanges();
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            status: 'error',
+            error: error instanceof Error ? error.message : String(error)
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: `Unknown tool: ${request.params.name}`
+    }],
+    isError: true
+  };
+}
+
+// HTTP clients share the session named in the URL, creating it if needed, or get a session of their own.
+// Sessions are only created for clients that initialized, and a client's own session ends with the client
+// unless another client is bound to it by then.
+function connectHttpClient(requestedSessionId?: string): HttpClient {
+  const client = connectClient();
+  let ownSessionId: string | undefined;
+
+  const onclose = client.server.onclose;
+  client.server.onclose = () => {
+    onclose?.();
+    if (ownSessionId === undefined || [...clients].some(other => other.sessionId === ownSessionId)) {
+      return;
+    }
+    try {
+      sessionManager.deleteSession(ownSessionId);
+    } catch (e: any) {
+      logger.warn(style.yellow(`Could not delete session ${ownSessionId} of a disconnected client: ${e.message}`), { event: 'session_cleanup_failed', sessionId: ownSessionId });
+    }
+  };
+
+  return {
+    server: client.server,
+    initialize: () => {
+      if (!requestedSessionId) {
+        ownSessionId = sessionManager.createSession().sessionId;
+        client.sessionId = ownSessionId;
+      } else if (sessionManager.listSessions().some(session => session.sessionId === requestedSessionId)) {
+        client.sessionId = requestedSessionId;
+      } else {
+        client.sessionId = sessionManager.createSession(requestedSessionId).sessionId;
+      }
+    },
+  };
+}
+
+export async function runServer(loaded: LoadedConfig) {
+  serverConfig = loaded;
+  sessionManager = new SessionManager(loaded.config);
+
+  const transport = loaded.config.transport;
+  if (transport.type === 'http') {
+    const options = { ...DEFAULT_HTTP_OPTIONS, host: transport.host, port: transport.port };
+    await startHttpServer(options, connectHttpClient);
+    logger.info(`Atom of Thoughts MCP Server running on http://${options.host}:${options.port}${options.path}`, { event: 'server_started', transport: 'http', url: `http://${options.host}:${options.port}${options.path}` });
+    return;
+  }
+
+  const { server } = connectClient();
+  await server.connect(new StdioServerTransport());
+  logger.info("Atom of Thoughts MCP Server running on stdio", { event: 'server_started', transport: 'stdio' });
+}
+
@@ -0,0 +1,868 @@
+import * as path from 'path';
+import { AotConfig, DEFAULT_CONFIG, EngineSettings, engineSettings } from './config.js';
+import { PROPAGATION_STRATEGIES, PropagationStrategy } from './confidence.js';
+import { GraphDiff, diffGraphs } from './diff.js';
+import { AtomOfThoughtsLightServer, AtomOfThoughtsServer, ToolResponse, summarizeConclusion } from './engine.js';
+import { EXPORT_FORMATS, ExportFormat, exportGraph } from './export.js';
+import { LINT_SEVERITIES, LintSeverity, groupFindings } from './lint.js';
+import { logger, style } from './logger.js';
+import { AtomStore } from './persistence.js';
+import { DEFAULT_TERMINATION_POLICY, validateTerminationPolicy } from './termination.js';
+import { AlternativesConsistency, AtomFilter, AtomGraphSnapshot, AtomType, Checkpoint, ConclusionSummary, JournalEntry, SessionSnapshot } from './types.js';
+
+export interface ReasoningSession {
+  sessionId: string;
+  created: number;
+  full: AtomOfThoughtsServer;
+  light: AtomOfThoughtsLightServer;
+  sequence: number; // Last journal entry applied to this session
+  snapshotSequence: number; // Journal entry covered by the last stored snapshot
+  checkpoints: Record<string, Checkpoint>;
+  forkedFrom?: string;
+}
+
+// A graph a diff compares: a checkpoint of the session or the current graph of a session
+export interface DiffSide {
+  kind: 'checkpoint' | 'session';
+  name: string;
+}
+
+export const DEFAULT_SESSION_ID = 'default';
+
+// atomcommands commands that change a graph and therefore have to be journaled
+const MUTATING_COMMANDS = ['decompose', 'complete_decomposition', 'abort_decomposition', 'set_max_depth', 'set_propagation_strategy', 'set_termination_policy', 'retract', 'promote', 'declare_alternatives'];
+
+// atomcommands commands that replace or re-point whole session graphs
+export const SESSION_CHANGING_COMMANDS = ['create_session', 'switch_session', 'reset_session', 'delete_session', 'load', 'fork', 'restore'];
+
+// Keeps independent atom graphs apart so unrelated problems never share atom IDs
+export class SessionManager {
+  private sessions: Record<string, ReasoningSession> = {};
+  private activeSessionId: string = DEFAULT_SESSION_ID;
+  private sessionCounter: number = 0;
+  // Live sessions are journaled continuously, named graphs are only written by save
+  private sessionStore?: AtomStore;
+  private graphStore?: AtomStore;
+  private settings: EngineSettings;
+
+  constructor(private config: AotConfig = DEFAULT_CONFIG) {
+    this.settings = engineSettings(config);
+
+    const storage = config.persistence;
+    if (storage.directory) {
+      this.sessionStore = new AtomStore(path.join(storage.directory, 'sessions'), storage.snapshotInterval);
+      this.graphStore = new AtomStore(path.join(storage.directory, 'graphs'));
+
+      for (const graph of this.sessionStore.listGraphs()) {
+        try {
+          const session = this.restoreGraph(this.sessionStore, graph.name, graph.name);
+          this.sessions[graph.name] = session;
+          logger.info(style.cyan(`📂 Restored session ${graph.name} (${session.full.getAtomCount() + session.light.getAtomCount()} atoms, ${graph.pendingJournalEntries} journal entries replayed)`), { event: 'session_restored', sessionId: graph.name, pendingJournalEntries: graph.pendingJournalEntries });
+        } catch (e: any) {
+          logger.error(style.red(`Could not restore session ${graph.name}: ${e.message}`), { event: 'session_restore_failed', sessionId: graph.name });
+        }
+      }
+    }
+
+    if (!this.sessions[DEFAULT_SESSION_ID]) {
+      this.createSession(DEFAULT_SESSION_ID);
+    }
+  }
+
+  public createSession(sessionId?: string): ReasoningSession {
+    const id = sessionId || this.nextSessionId();
+    if (this.sessions[id]) {
+      throw new Error(`Session ${id} already exists`);
+    }
+
+    this.sessions[id] = this.newSession(id);
+    this.persistSnapshot(this.sessions[id]);
+
+    logger.info(style.cyan(`📂 Created session ${id}`), { event: 'session_created', sessionId: id });
+
+    return this.sessions[id];
+  }
+
+  // Resolve a session by ID, falling back to the active session
+  public getSession(sessionId?: string): ReasoningSession {
+    const id = sessionId || this.activeSessionId;
+    const session = this.sessions[id];
+    if (!session) {
+      throw new Error(`Session with ID ${id} not found`);
+    }
+    return session;
+  }
+
+  public getActiveSessionId(): string {
+    return this.activeSessionId;
+  }
+
+  public listSessions(): Array<{ sessionId: string; active: boolean; created: number; atomsCount: number; lightAtomsCount: number; forkedFrom?: string }> {
+    return Object.values(this.sessions).map(session => ({
+      sessionId: session.sessionId,
+      active: session.sessionId === this.activeSessionId,
+      created: session.created,
+      atomsCount: session.full.getAtomCount(),
+      lightAtomsCount: session.light.getAtomCount(),
+      ...(session.forkedFrom !== undefined && { forkedFrom: session.forkedFrom }),
+    }));
+  }
+
+  public switchSession(sessionId: string): ReasoningSession {
+    const session = this.getSession(sessionId);
+    this.activeSessionId = session.sessionId;
+
+    logger.info(style.cyan(`🔀 Switched to session ${session.sessionId}`), { event: 'session_switched', sessionId: session.sessionId });
+
+    return session;
+  }
+
+  // Discard all atoms of a session while keeping its ID and depth settings
+  public resetSession(sessionId?: string): ReasoningSession {
+    const session = this.getSession(sessionId);
+    const terminationPolicy = session.full.getTerminationPolicy();
+    session.full = new AtomOfThoughtsServer(session.full.maxDepth, this.settings);
+    session.full.setTerminationPolicy(terminationPolicy);
+    session.light = new AtomOfThoughtsLightServer(session.light.maxDepth, this.settings);
+    this.persistSnapshot(session);
+
+    logger.info(style.yellow(`♻️ Reset session ${session.sessionId}`), { event: 'session_reset', sessionId: session.sessionId });
+
+    return session;
+  }
+
+  // Copy a session, checkpoints included, into a new one where reasoning continues without touching the original
+  public forkSession(sessionId?: string, branchId?: string): ReasoningSession {
+    const source = this.getSession(sessionId);
+    const id = branchId || this.nextSessionId();
+    if (this.sessions[id]) {
+      throw new Error(`Session ${id} already exists`);
+    }
+
+    const branch = this.newSession(id);
+    branch.full.restoreSnapshot(source.full.toSnapshot());
+    branch.light.restoreSnapshot(source.light.toSnapshot());
+    branch.checkpoints = structuredClone(source.checkpoints);
+    branch.forkedFrom = source.sessionId;
+    this.sessions[id] = branch;
+    this.persistSnapshot(branch);
+
+    logger.info(style.cyan(`🌿 Forked session ${source.sessionId} into ${id}`), { event: 'session_forked', sessionId: id, forkedFrom: source.sessionId });
+
+    return branch;
+  }
+
+  // Keep a copy of both graphs of a session under a name (defaults to checkpoint_N)
+  public createCheckpoint(sessionId?: string, name?: string): Checkpoint {
+    const session = this.getSession(sessionId);
+    if (name !== undefined && (typeof name !== 'string' || name === '')) {
+      throw new Error('name must be a non-empty string');
+    }
+    if (name !== undefined && session.checkpoints[name]) {
+      throw new Error(`Checkpoint ${name} already exists in session ${session.sessionId}`);
+    }
+
+    const checkpointName = name ?? nextCheckpointName(session);
+    const checkpoint: Checkpoint = {
+      name: checkpointName,
+      created: Date.now(),
+      full: session.full.toSnapshot(),
+      light: session.light.toSnapshot(),
+    };
+    session.checkpoints[checkpointName] = checkpoint;
+    this.persistSnapshot(session);
+
+    logger.info(style.green(`📌 Created checkpoint ${checkpointName} of session ${session.sessionId}`), { event: 'checkpoint_created', sessionId: session.sessionId, name: checkpointName });
+
+    return checkpoint;
+  }
+
+  public listCheckpoints(sessionId?: string): Array<{ name: string; created: number; atomsCount: number; lightAtomsCount: number }> {
+    return Object.values(this.getSession(sessionId).checkpoints).map(checkpoint => ({
+      name: checkpoint.name,
+      created: checkpoint.created,
+      atomsCount: checkpoint.full.atomOrder.length,
+      lightAtomsCount: checkpoint.light.atomOrder.length,
+    }));
+  }
+
+  // Put both graphs of a session back to a checkpoint; the checkpoint is kept so it can be restored again
+  public restoreCheckpoint(name: string, sessionId?: string): ReasoningSession {
+    const session = this.getSession(sessionId);
+    const checkpoint = this.requireCheckpoint(session, name);
+
+    session.full.restoreSnapshot(checkpoint.full);
+    session.light.restoreSnapshot(checkpoint.light);
+    this.persistSnapshot(session);
+
+    logger.info(style.yellow(`⏪ Restored session ${session.sessionId} to checkpoint ${name}`), { event: 'checkpoint_restored', sessionId: session.sessionId, name });
+
+    return session;
+  }
+
+  // Compare two graphs, each named by a checkpoint of the session or by a session ID. Checkpoints are
+  // looked up first, and a missing `to` stands for the current graph of the session.
+  public diff(from: string, to?: string, sessionId?: string, engine: 'full' | 'light' = 'full'): { from: DiffSide; to: DiffSide } & GraphDiff {
+    const session = this.getSession(sessionId);
+    const before = this.resolveDiffSide(session, from, engine);
+    const after = to === undefined
+      ? { side: { kind: 'session' as const, name: session.sessionId }, graph: session[engine] }
+      : this.resolveDiffSide(session, to, engine);
+
+    return {
+      from: before.side,
+      to: after.side,
+      ...diffGraphs(before.graph.toSnapshot(), after.graph.toSnapshot(), bestOf(before.graph), bestOf(after.graph)),
+    };
+  }
+
+  private resolveDiffSide(session: ReasoningSession, reference: string, engine: 'full' | 'light'): { side: DiffSide; graph: AtomOfThoughtsServer } {
+    const checkpoint = session.checkpoints[reference];
+    if (checkpoint) {
+      // A throwaway engine, so the best conclusion is chosen exactly as for a live graph
+      const graph = engine === 'light'
+        ? new AtomOfThoughtsLightServer(checkpoint.light.maxDepth, this.settings)
+        : new AtomOfThoughtsServer(checkpoint.full.maxDepth, this.settings);
+      graph.restoreSnapshot(checkpoint[engine]);
+      return { side: { kind: 'checkpoint', name: reference }, graph };
+    }
+
+    const other = this.sessions[reference];
+    if (other) {
+      return { side: { kind: 'session', name: reference }, graph: other[engine] };
+    }
+
+    throw new Error(`No checkpoint of session ${session.sessionId} or session named ${reference}`);
+  }
+
+  private requireCheckpoint(session: ReasoningSession, name: string): Checkpoint {
+    const checkpoint = session.checkpoints[name];
+    if (!checkpoint) {
+      throw new Error(`Checkpoint ${name} not found in session ${session.sessionId}`);
+    }
+    return checkpoint;
+  }
+
+  public deleteSession(sessionId: string): boolean {
+    const session = this.getSession(sessionId);
+    if (session.sessionId === this.activeSessionId) {
+      throw new Error(`Cannot delete the active session ${sessionId}; switch to another session first`);
+    }
+
+    delete this.sessions[session.sessionId];
+    if (this.sessionStore) {
+      this.sessionStore.deleteGraph(session.sessionId);
+    }
+
+    logger.info(style.yellow(`🗑️ Deleted session ${session.sessionId}`), { event: 'session_deleted', sessionId: session.sessionId });
+
+    return true;
+  }
+
+  // Run a tool call against a session and journal it when it changed the graph
+  public execute(session: ReasoningSession, tool: string, args: Record<string, unknown>): ToolResponse {
+    const entry: JournalEntry = {
+      sequence: session.sequence + 1,
+      timestamp: Date.now(),
+      tool,
+      arguments: args,
+    };
+
+    const response = this.applyEntry(session, entry);
+
+    const isMutating = tool !== 'atomcommands' || MUTATING_COMMANDS.includes(args.command as string);
+    if (!response.isError && isMutating) {
+      session.sequence = entry.sequence;
+      this.appendJournal(session, entry);
+    }
+
+    return response;
+  }
+
+  // Store the current graph of a session under a name (defaults to the session ID)
+  public saveSession(sessionId?: string, name?: string): string {
+    const graphStore = this.requireGraphStore();
+    const session = this.getSession(sessionId);
+    const graphName = name || session.sessionId;
+
+    graphStore.writeSnapshot(graphName, { ...this.toSnapshot(session), sequence: 0 });
+    this.persistSnapshot(session);
+
+    logger.info(style.green(`💾 Saved session ${session.sessionId} as ${graphName}`), { event: 'session_saved', sessionId: session.sessionId, name: graphName });
+
+    return graphName;
+  }
+
+  // Replace the graph of a session with a stored graph
+  public loadSession(name: string, sessionId?: string): ReasoningSession {
+    const graphStore = this.requireGraphStore();
+    if (!graphStore.hasGraph(name)) {
+      throw new Error(`Stored graph ${name} not found`);
+    }
+
+    const target = this.getSession(sessionId);
+    const loaded = this.restoreGraph(graphStore, name, target.sessionId);
+    target.full = loaded.full;
+    target.light = loaded.light;
+    this.persistSnapshot(target);
+
+    logger.info(style.green(`📥 Loaded stored graph ${name} into session ${target.sessionId}`), { event: 'session_loaded', sessionId: target.sessionId, name });
+
+    return target;
+  }
+
+  public listStoredGraphs() {
+    return this.requireGraphStore().listGraphs();
+  }
+
+  private newSession(sessionId: string): ReasoningSession {
+    return {
+      sessionId,
+      created: Date.now(),
+      full: new AtomOfThoughtsServer(this.config.engine.maxDepth, this.settings),
+      light: new AtomOfThoughtsLightServer(this.config.engine.lightMaxDepth, this.settings),
+      sequence: 0,
+      snapshotSequence: 0,
+      checkpoints: {},
+    };
+  }
+
+  // Rebuild a session from its latest snapshot plus the journal entries recorded after it
+  private restoreGraph(store: AtomStore, name: string, sessionId: string): ReasoningSession {
+    const snapshot = store.readSnapshot(name);
+    const session = this.rebuildSession(sessionId, snapshot, store.readJournal(name, snapshot ? snapshot.sequence : 0),
+      (entry, response) => {
+        if (response.isError) {
+          logger.warn(style.yellow(`⚠️ Journal entry ${entry.sequence} of ${name} failed during replay`), { event: 'journal_replay_failed', name, sequence: entry.sequence });
+        }
+      });
+    session.snapshotSequence = snapshot ? snapshot.sequence : 0;
+
+    return session;
+  }
+
+  // Replace a session with graphs and calls recorded elsewhere, reporting the response to every call
+  public replay(
+    source: { full?: AtomGraphSnapshot; light?: AtomGraphSnapshot; sequence: number; entries: JournalEntry[] },
+    onEntry?: (entry: JournalEntry, response: ToolResponse) => void,
+    sessionId?: string,
+  ): ReasoningSession {
+    const target = this.getSession(sessionId);
+    const session = this.rebuildSession(target.sessionId, source, source.entries, onEntry);
+    this.sessions[session.sessionId] = session;
+    this.persistSnapshot(session);
+
+    return session;
+  }
+
+  private rebuildSession(
+    sessionId: string,
+    snapshot: Pick<Partial<SessionSnapshot>, 'created' | 'full' | 'light' | 'checkpoints' | 'forkedFrom'> & { sequence: number } | null,
+    entries: JournalEntry[],
+    onEntry?: (entry: JournalEntry, response: ToolResponse) => void,
+  ): ReasoningSession {
+    const session = this.newSession(sessionId);
+
+    if (snapshot) {
+      session.created = snapshot.created ?? session.created;
+      if (snapshot.full) session.full.restoreSnapshot(snapshot.full);
+      if (snapshot.light) session.light.restoreSnapshot(snapshot.light);
+      session.checkpoints = snapshot.checkpoints || {};
+      session.forkedFrom = snapshot.forkedFrom;
+      session.sequence = snapshot.sequence;
+    }
+
+    for (const entry of entries) {
+      const response = this.applyEntry(session, entry);
+      onEntry?.(entry, response);
+      session.sequence = entry.sequence;
+    }
+
+    return session;
+  }
+
+  // Pin the clock to the entry timestamp so replays produce the same IDs and timestamps
+  private applyEntry(session: ReasoningSession, entry: JournalEntry): ToolResponse {
+    const clock = () => entry.timestamp;
+    session.full.setClock(clock);
+    session.light.setClock(clock);
+
+    try {
+      switch (entry.tool) {
+        case 'AoT':
+          return session.full.processAtom(entry.arguments);
+        case 'AoT-light':
+          return session.light.processAtom(entry.arguments);
+        case 'AoT-batch':
+          return (entry.arguments.engine === 'light' ? session.light : session.full).processBatch(entry.arguments);
+        case 'atomcommands':
+          return runGraphCommand(session, entry.arguments);
+        default:
+          throw new Error(`Unknown tool: ${entry.tool}`);
+      }
+    } catch (error) {
+      // A failing call is reported like any other response, so a replay carries on with the next one
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            status: 'error',
+            error: error instanceof Error ? error.message : String(error)
+          }, null, 2)
+        }],
+        isError: true
+      };
+    } finally {
+      session.full.setClock(Date.now);
+      session.light.setClock(Date.now);
+    }
+  }
+
+  private appendJournal(session: ReasoningSession, entry: JournalEntry): void {
+    if (!this.sessionStore) return;
+
+    try {
+      this.sessionStore.appendJournal(session.sessionId, entry);
+      if (session.sequence - session.snapshotSequence >= this.sessionStore.snapshotInterval) {
+        this.persistSnapshot(session);
+      }
+    } catch (e: any) {
+      logger.error(style.red(`Could not persist session ${session.sessionId}: ${e.message}`), { event: 'persistence_failed', sessionId: session.sessionId });
+    }
+  }
+
+  private persistSnapshot(session: ReasoningSession): void {
+    if (!this.sessionStore) return;
+
+    this.sessionStore.writeSnapshot(session.sessionId, this.toSnapshot(session));
+    session.snapshotSequence = session.sequence;
+  }
+
+  public toSnapshot(session: ReasoningSession): SessionSnapshot {
+    return {
+      sessionId: session.sessionId,
+      created: session.created,
+      savedAt: Date.now(),
+      sequence: session.sequence,
+      full: session.full.toSnapshot(),
+      light: session.light.toSnapshot(),
+      checkpoints: structuredClone(session.checkpoints),
+      ...(session.forkedFrom !== undefined && { forkedFrom: session.forkedFrom }),
+    };
+  }
+
+  private requireGraphStore(): AtomStore {
+    if (!this.graphStore) {
+      throw new Error('Persistence is disabled; set AOT_STORAGE_DIR or --storage-dir to enable it');
+    }
+    return this.graphStore;
+  }
+
+  private nextSessionId(): string {
+    let id: string;
+    do {
+      this.sessionCounter++;
+      id = `session_${this.sessionCounter}`;
+    } while (this.sessions[id]);
+    return id;
+  }
+}
+
+function bestOf(graph: AtomOfThoughtsServer): ConclusionSummary | null {
+  return summarizeConclusion(graph.getBestConclusion());
+}
+
+function nextCheckpointName(session: ReasoningSession): string {
+  let counter = Object.keys(session.checkpoints).length;
+  let name: string;
+  do {
+    counter++;
+    name = `checkpoint_${counter}`;
+  } while (session.checkpoints[name]);
+  return name;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+function parseAtomFilter(input: unknown): AtomFilter {
+  if (input === undefined) return {};
+  if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('filter must be an object');
+  }
+
+  const data = input as Record<string, unknown>;
+  const filter: AtomFilter = {};
+
+  if (data.atomType !== undefined) {
+    if (!['premise', 'reasoning', 'hypothesis', 'verification', 'conclusion'].includes(data.atomType as string)) {
+      throw new Error('filter.atomType must be one of premise, reasoning, hypothesis, verification, conclusion');
+    }
+    filter.atomType = data.atomType as AtomType;
+  }
+  if (data.isVerified !== undefined) {
+    if (typeof data.isVerified !== 'boolean') throw new Error('filter.isVerified must be a boolean');
+    filter.isVerified = data.isVerified;
+  }
+  for (const key of ['minDepth', 'maxDepth', 'minConfidence', 'maxConfidence'] as const) {
+    if (data[key] !== undefined) {
+      if (typeof data[key] !== 'number') throw new Error(`filter.${key} must be a number`);
+      filter[key] = data[key] as number;
+    }
+  }
+  if (data.decompositionId !== undefined) {
+    if (typeof data.decompositionId !== 'string') throw new Error('filter.decompositionId must be a string');
+    filter.decompositionId = data.decompositionId;
+  }
+
+  return filter;
+}
+
+function paginate<T>(items: T[], params: Record<string, unknown>): { total: number; offset: number; limit: number; hasMore: boolean; atoms: T[] } {
+  const offset = params.offset !== undefined ? Number(params.offset) : 0;
+  const limit = params.limit !== undefined ? Number(params.limit) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(offset) || offset < 0) throw new Error('offset must be a non-negative integer');
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_PAGE_SIZE) throw new Error(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+
+  return {
+    total: items.length,
+    offset,
+    limit,
+    hasMore: offset + limit < items.length,
+    atoms: items.slice(offset, offset + limit),
+  };
+}
+
+// Commands that need the decomposition mechanism of the full engine
+const FULL_ONLY_COMMANDS = ['decompose', 'complete_decomposition', 'abort_decomposition', 'list_decompositions'];
+
+// Commands that read or change the graph of a single session
+function runGraphCommand(session: ReasoningSession, params: Record<string, unknown>): ToolResponse {
+  const command = params.command as string;
+
+  const engine = (params.engine as string | undefined) || 'full';
+  if (engine !== 'full' && engine !== 'light') {
+    throw new Error('engine must be one of full, light');
+  }
+  if (engine === 'light' && FULL_ONLY_COMMANDS.includes(command)) {
+    throw new Error(`${command} is not supported by AoT-light; promote the session to use it`);
+  }
+  const graph: AtomOfThoughtsServer = engine === 'light' ? session.light : session.full;
+
+  let result: any = { status: 'error', message: 'Unknown command' };
+
+  switch (command) {
+    case 'decompose':
+      const atomId = params.atomId as string;
+      if (!atomId) throw new Error('atomId is required for decompose command');
+      
+      const decompositionId = graph.startDecomposition(atomId);
+      result = { 
+        status: 'success', 
+        command: 'decompose',
+        decompositionId,
+        message: `Started decomposition of atom ${atomId}`
+      };
+      break;
+      
+    case 'complete_decomposition':
+      const decompId = params.decompositionId as string;
+      if (!decompId) throw new Error('decompositionId is required for complete_decomposition command');
+      
+      const completed = graph.completeDecomposition(decompId);
+      result = { 
+        status: 'success', 
+        command: 'complete_decomposition',
+        completed,
+        message: `Completed decomposition ${decompId}`
+      };
+      break;
+      
+    case 'abort_decomposition':
+      const abortId = params.decompositionId as string;
+      if (!abortId) throw new Error('decompositionId is required for abort_decomposition command');
+
+      const aborted = graph.abortDecomposition(abortId);
+      result = {
+        status: 'success',
+        command: 'abort_decomposition',
+        aborted,
+        currentDecomposition: graph.getCurrentDecompositionId(),
+        message: `Aborted decomposition ${aborted.join(', ')}`
+      };
+      break;
+
+    case 'list_decompositions':
+      result = {
+        status: 'success',
+        command: 'list_decompositions',
+        currentDecomposition: graph.getCurrentDecompositionId(),
+        decompositions: graph.listDecompositions()
+      };
+      break;
+
+    case 'termination_status':
+      const status = graph.getTerminationStatus();
+      result = { 
+        status: 'success', 
+        command: 'termination_status',
+        ...status,
+        policy: graph.getTerminationPolicy()
+      };
+      break;
+
+    case 'set_termination_policy':
+      const policy = params.policy === 'default'
+        ? DEFAULT_TERMINATION_POLICY
+        : validateTerminationPolicy(params.policy);
+
+      graph.setTerminationPolicy(policy);
+      result = {
+        status: 'success',
+        command: 'set_termination_policy',
+        policy,
+        terminationStatus: graph.getTerminationStatus(),
+        message: `Termination policy set: ${policy.mode} of ${policy.conditions.map(condition => condition.type).join(', ')}`
+      };
+      break;
+      
+    case 'best_conclusion':
+      const bestConclusion = graph.getBestConclusion();
+      result = { 
+        status: 'success', 
+        command: 'best_conclusion',
+        conclusion: bestConclusion ? {
+          atomId: bestConclusion.atomId,
+          content: bestConclusion.content,
+          confidence: bestConclusion.confidence
+        } : null
+      };
+      break;
+      
+    case 'set_max_depth':
+      const maxDepth = params.maxDepth as number;
+      if (typeof maxDepth !== 'number' || maxDepth <= 0) 
+        throw new Error('maxDepth must be a positive number');
+      
+      graph.maxDepth = maxDepth;
+      result = { 
+        status: 'success', 
+        command: 'set_max_depth',
+        maxDepth,
+        message: `Maximum depth set to ${maxDepth}`
+      };
+      break;
+
+    case 'retract':
+      const retractId = params.atomId as string;
+      if (!retractId) throw new Error('atomId is required for retract command');
+
+      const invalidatedAtoms = graph.retractAtom(retractId);
+      result = {
+        status: 'success',
+        command: 'retract',
+        atomId: retractId,
+        invalidatedAtoms,
+        message: `Retracted atom ${retractId}`
+      };
+      break;
+
+    case 'history':
+      const historyId = params.atomId as string;
+      if (!historyId) throw new Error('atomId is required for history command');
+
+      result = {
+        status: 'success',
+        command: 'history',
+        atomId: historyId,
+        versions: graph.getAtomHistory(historyId)
+      };
+      break;
+
+    case 'set_propagation_strategy':
+      const strategy = params.strategy as PropagationStrategy;
+      if (!PROPAGATION_STRATEGIES.includes(strategy))
+        throw new Error(`strategy must be one of ${PROPAGATION_STRATEGIES.join(', ')}`);
+
+      const propagationUpdates = graph.setPropagationStrategy(strategy);
+      result = {
+        status: 'success',
+        command: 'set_propagation_strategy',
+        strategy,
+        propagationUpdates,
+        message: `Confidence propagation strategy set to ${strategy}`
+      };
+      break;
+
+    case 'export':
+      const format = (params.format as ExportFormat | undefined) || 'markdown';
+      if (!EXPORT_FORMATS.includes(format))
+        throw new Error(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+
+      result = {
+        status: 'success',
+        command: 'export',
+        format,
+        output: exportGraph(graph.toSnapshot(), format)
+      };
+      break;
+
+    case 'get_atom':
+      const getId = params.atomId as string;
+      if (!getId) throw new Error('atomId is required for get_atom command');
+
+      const atom = graph.getAtom(getId);
+      if (!atom) throw new Error(`Atom with ID ${getId} not found`);
+
+      result = {
+        status: 'success',
+        command: 'get_atom',
+        atom
+      };
+      break;
+
+    case 'list_atoms':
+      const listFilter = parseAtomFilter(params.filter);
+      result = {
+        status: 'success',
+        command: 'list_atoms',
+        filter: listFilter,
+        ...paginate(graph.findAtoms(listFilter), params)
+      };
+      break;
+
+    case 'search_atoms':
+      const query = params.query as string;
+      if (!query || typeof query !== 'string') throw new Error('query is required for search_atoms command');
+
+      const searchFilter = { ...parseAtomFilter(params.filter), query };
+      result = {
+        status: 'success',
+        command: 'search_atoms',
+        filter: searchFilter,
+        ...paginate(graph.findAtoms(searchFilter), params)
+      };
+      break;
+
+    case 'topological_order':
+      result = {
+        status: 'success',
+        command: 'topological_order',
+        order: graph.getTopologicalOrder()
+      };
+      break;
+
+    case 'explain':
+      result = {
+        status: 'success',
+        command: 'explain',
+        ...graph.explain(params.atomId as string | undefined)
+      };
+      break;
+
+    case 'promote':
+      const promotedAtoms = session.full.importGraph(session.light.toSnapshot());
+      result = {
+        status: 'success',
+        command: 'promote',
+        promotedAtoms,
+        atomsCount: session.full.getAtomCount(),
+        terminationStatus: session.full.getTerminationStatus(),
+        message: `Promoted ${promotedAtoms.length} atoms from AoT-light into the full AoT graph of session ${session.sessionId}`
+      };
+      break;
+
+    case 'ancestors':
+      const ancestorsOf = params.atomId as string;
+      if (!ancestorsOf) throw new Error('atomId is required for ancestors command');
+
+      result = {
+        status: 'success',
+        command: 'ancestors',
+        atomId: ancestorsOf,
+        ancestors: graph.getAncestors(ancestorsOf)
+      };
+      break;
+
+    case 'descendants':
+      const descendantsOf = params.atomId as string;
+      if (!descendantsOf) throw new Error('atomId is required for descendants command');
+
+      result = {
+        status: 'success',
+        command: 'descendants',
+        atomId: descendantsOf,
+        descendants: graph.getDescendants(descendantsOf)
+      };
+      break;
+
+    case 'lint':
+      const minimumSeverity = (params.severity as LintSeverity | undefined) || 'info';
+      if (!LINT_SEVERITIES.includes(minimumSeverity))
+        throw new Error(`severity must be one of ${LINT_SEVERITIES.join(', ')}`);
+      const lintAtomId = params.atomId as string | undefined;
+      if (lintAtomId && !graph.getAtom(lintAtomId)) throw new Error(`Atom with ID ${lintAtomId} not found`);
+
+      const findings = graph.lint().filter(finding =>
+        LINT_SEVERITIES.indexOf(finding.severity) <= LINT_SEVERITIES.indexOf(minimumSeverity)
+        && (!lintAtomId || finding.atomId === lintAtomId));
+      const counts = Object.fromEntries(LINT_SEVERITIES.map(severity => [severity, findings.filter(finding => finding.severity === severity).length]));
+      result = {
+        status: 'success',
+        command: 'lint',
+        counts,
+        findings: groupFindings(findings),
+        message: findings.length === 0
+          ? 'No findings'
+          : `${findings.length} findings: ${LINT_SEVERITIES.map(severity => `${counts[severity]} ${severity}`).join(', ')}`
+      };
+      break;
+
+    case 'stats':
+      result = {
+        status: 'success',
+        command: 'stats',
+        ...graph.getStats()
+      };
+      break;
+
+    case 'declare_alternatives':
+      const consistency = (params.consistency as AlternativesConsistency | undefined) || 'normalize';
+      if (consistency !== 'normalize' && consistency !== 'warn')
+        throw new Error('consistency must be one of normalize, warn');
+      if (params.setId !== undefined && (typeof params.setId !== 'string' || params.setId === ''))
+        throw new Error('setId must be a non-empty string');
+
+      const hypothesisSet = graph.declareAlternatives(params.atomIds as string[], {
+        setId: params.setId as string | undefined,
+        question: params.question as string | undefined,
+        consistency
+      });
+      result = {
+        status: 'success',
+        command: 'declare_alternatives',
+        hypothesisSet,
+        message: `Declared hypothesis set ${hypothesisSet.setId} with ${hypothesisSet.hypotheses.length} alternatives, led by ${hypothesisSet.leader}`
+      };
+      break;
+
+    case 'list_alternatives':
+      const hypothesisSets = graph.listHypothesisSets();
+      if (params.setId !== undefined && !hypothesisSets.some(set => set.setId === params.setId))
+        throw new Error(`Hypothesis set ${params.setId} not found`);
+
+      result = {
+        status: 'success',
+        command: 'list_alternatives',
+        hypothesisSets: hypothesisSets.filter(set => params.setId === undefined || set.setId === params.setId)
+      };
+      break;
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify(result, null, 2)
+    }]
+  };
+}
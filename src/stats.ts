@@ -0,0 +1,135 @@
+import { AtomData, AtomGraphSnapshot, AtomType, DecompositionStatus } from './types.js';
+
+const ATOM_TYPES: AtomType[] = ['premise', 'reasoning', 'hypothesis', 'verification', 'conclusion'];
+
+// Analytics of one graph, meant for comparing reasoning runs
+export interface GraphStats {
+  atomsCount: number;
+  byType: Record<AtomType, number>;
+  verified: number;
+  rejected: number;
+  retracted: number;
+  hypotheses: {
+    total: number;
+    verified: number;
+    refuted: number;
+    checked: number; // Hypotheses at least one verification atom depends on
+    coverage: number | null; // Share of hypotheses that were checked, null without hypotheses
+  };
+  depth: {
+    maxDepth: number;
+    deepest: number;
+    histogram: Array<{ depth: number; count: number }>; // Every depth from 0 to the maximum depth or the deepest atom
+    beyondMaxDepth: number;
+  };
+  decompositions: Record<DecompositionStatus, number> & { total: number };
+  contractions: number;
+  bestConclusionChain: {
+    conclusionId: string;
+    atomIds: string[]; // The conclusion and every atom it rests on
+    averageConfidence: number;
+    lowest: { atomId: string; confidence: number };
+  } | null;
+  timing: {
+    firstAtom: number;
+    lastAtom: number;
+    elapsedMs: number;
+    averageGapMs: number; // Gaps between consecutive atoms by creation time
+    medianGapMs: number;
+    longestGapMs: number;
+  } | null;
+}
+
+// Retracted atoms count towards the totals but not towards hypothesis coverage, depth or the best conclusion's chain
+export function computeStats(
+  graph: Pick<AtomGraphSnapshot, 'atoms' | 'atomOrder' | 'decompositionStates' | 'maxDepth'>,
+  bestConclusionId: string | null,
+): GraphStats {
+  const atoms = graph.atomOrder.map(id => graph.atoms[id]).filter(atom => atom !== undefined);
+  const live = atoms.filter(atom => !atom.isRetracted);
+  const countBy = (predicate: (atom: AtomData) => boolean) => atoms.filter(predicate).length;
+
+  const hypotheses = live.filter(atom => atom.atomType === 'hypothesis');
+  const checked = hypotheses.filter(hypothesis =>
+    live.some(atom => atom.atomType === 'verification' && atom.dependencies.includes(hypothesis.atomId))).length;
+
+  const deepest = Math.max(0, ...live.map(atom => atom.depth || 0));
+  const histogram = Array.from({ length: Math.max(graph.maxDepth, deepest) + 1 }, (_, depth) => ({
+    depth,
+    count: live.filter(atom => (atom.depth || 0) === depth).length,
+  }));
+
+  const statuses = Object.values(graph.decompositionStates).map((state): DecompositionStatus =>
+    state.isAborted ? 'aborted' : state.isContracted ? 'contracted' : state.isCompleted ? 'completed' : 'active');
+  const countStatus = (status: DecompositionStatus) => statuses.filter(candidate => candidate === status).length;
+
+  return {
+    atomsCount: atoms.length,
+    byType: Object.fromEntries(ATOM_TYPES.map(atomType => [atomType, countBy(atom => atom.atomType === atomType)])) as Record<AtomType, number>,
+    verified: countBy(atom => atom.isVerified),
+    rejected: countBy(atom => !!atom.isRejected),
+    retracted: countBy(atom => !!atom.isRetracted),
+    hypotheses: {
+      total: hypotheses.length,
+      verified: hypotheses.filter(atom => atom.isVerified).length,
+      refuted: hypotheses.filter(atom => atom.isRejected).length,
+      checked,
+      coverage: hypotheses.length > 0 ? checked / hypotheses.length : null,
+    },
+    depth: {
+      maxDepth: graph.maxDepth,
+      deepest,
+      histogram,
+      beyondMaxDepth: live.filter(atom => (atom.depth || 0) > graph.maxDepth).length,
+    },
+    decompositions: {
+      total: statuses.length,
+      active: countStatus('active'),
+      completed: countStatus('completed'),
+      contracted: countStatus('contracted'),
+      aborted: countStatus('aborted'),
+    },
+    contractions: countStatus('contracted'),
+    bestConclusionChain: bestConclusionId && graph.atoms[bestConclusionId] ? conclusionChain(graph.atoms, bestConclusionId) : null,
+    timing: timing(atoms.map(atom => atom.created)),
+  };
+}
+
+function conclusionChain(atoms: Record<string, AtomData>, conclusionId: string): GraphStats['bestConclusionChain'] {
+  const chain: AtomData[] = [];
+  const visit = (atomId: string) => {
+    const atom = atoms[atomId];
+    if (!atom || atom.isRetracted || chain.includes(atom)) {
+      return;
+    }
+    chain.push(atom);
+    atom.dependencies.forEach(visit);
+  };
+  visit(conclusionId);
+
+  const lowest = chain.reduce((weakest, atom) => atom.confidence < weakest.confidence ? atom : weakest);
+  return {
+    conclusionId,
+    atomIds: chain.map(atom => atom.atomId),
+    averageConfidence: chain.reduce((sum, atom) => sum + atom.confidence, 0) / chain.length,
+    lowest: { atomId: lowest.atomId, confidence: lowest.confidence },
+  };
+}
+
+function timing(created: number[]): GraphStats['timing'] {
+  if (created.length === 0) {
+    return null;
+  }
+
+  const sorted = [...created].sort((a, b) => a - b);
+  const gaps = sorted.slice(1).map((time, index) => time - sorted[index]).sort((a, b) => a - b);
+  const middle = Math.floor(gaps.length / 2);
+  return {
+    firstAtom: sorted[0],
+    lastAtom: sorted[sorted.length - 1],
+    elapsedMs: sorted[sorted.length - 1] - sorted[0],
+    averageGapMs: gaps.length > 0 ? gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length : 0,
+    medianGapMs: gaps.length === 0 ? 0 : gaps.length % 2 === 1 ? gaps[middle] : (gaps[middle - 1] + gaps[middle]) / 2,
+    longestGapMs: gaps.length > 0 ? gaps[gaps.length - 1] : 0,
+  };
+}
@@ -0,0 +1,168 @@
+import { formatPercent } from './render.js';
+
+export type TerminationConditionType =
+  | 'max_depth'
+  | 'confidence_threshold'
+  | 'min_verifications'
+  | 'max_atoms'
+  | 'time_budget'
+  | 'no_new_atoms'
+  | 'hypotheses_resolved';
+
+export const TERMINATION_CONDITION_TYPES: TerminationConditionType[] = [
+  'max_depth',
+  'confidence_threshold',
+  'min_verifications',
+  'max_atoms',
+  'time_budget',
+  'no_new_atoms',
+  'hypotheses_resolved',
+];
+
+// Conditions that cannot be evaluated without a value
+const REQUIRES_VALUE: TerminationConditionType[] = ['min_verifications', 'max_atoms', 'time_budget', 'no_new_atoms'];
+
+export interface TerminationCondition {
+  type: TerminationConditionType;
+  value?: number;
+}
+
+export interface TerminationPolicy {
+  mode: 'any' | 'all';
+  conditions: TerminationCondition[];
+}
+
+// Matches the behaviour before policies existed: stop at maximum depth or on a verified conclusion
+// reaching the configured conclusion threshold (90% by default)
+export const DEFAULT_TERMINATION_POLICY: TerminationPolicy = {
+  mode: 'any',
+  conditions: [
+    { type: 'max_depth' },
+    { type: 'confidence_threshold' },
+  ],
+};
+
+// What a policy is evaluated against, gathered from the graph by the server
+export interface TerminationContext {
+  maxDepth: number;
+  conclusionThreshold: number; // Used by confidence_threshold conditions without a value
+  deepestAtom: number;
+  atomsCount: number;
+  verifiedConclusions: Array<{ atomId: string; confidence: number; independentVerifications: number }>;
+  unresolvedHypotheses: string[];
+  hypothesesCount: number;
+  startedAt: number | null; // Creation time of the first atom
+  now: number;
+  stepsSinceNewAtom: number;
+}
+
+export interface TerminationConditionResult extends TerminationCondition {
+  passed: boolean;
+  detail: string;
+}
+
+export interface TerminationStatus {
+  shouldTerminate: boolean;
+  reason: string;
+  mode: 'any' | 'all';
+  passed: TerminationConditionResult[];
+  failed: TerminationConditionResult[];
+}
+
+export function validateTerminationPolicy(input: unknown): TerminationPolicy {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Invalid policy: must be an object with mode and conditions');
+  }
+
+  const data = input as Record<string, unknown>;
+  const mode = data.mode === undefined ? 'any' : data.mode;
+  if (mode !== 'any' && mode !== 'all') {
+    throw new Error('Invalid policy mode: must be any or all');
+  }
+  if (!Array.isArray(data.conditions) || data.conditions.length === 0) {
+    throw new Error('Invalid policy conditions: must be a non-empty array');
+  }
+
+  const conditions = data.conditions.map((entry: unknown) => {
+    const condition = (entry || {}) as Record<string, unknown>;
+    const type = condition.type as TerminationConditionType;
+    if (!TERMINATION_CONDITION_TYPES.includes(type)) {
+      throw new Error(`Invalid condition type: must be one of ${TERMINATION_CONDITION_TYPES.join(', ')}`);
+    }
+    if (condition.value !== undefined && (typeof condition.value !== 'number' || condition.value < 0)) {
+      throw new Error(`Invalid value for ${type}: must be a non-negative number`);
+    }
+    if (condition.value === undefined && REQUIRES_VALUE.includes(type)) {
+      throw new Error(`Invalid condition ${type}: value is required`);
+    }
+    if (type === 'confidence_threshold' && condition.value !== undefined && condition.value > 1) {
+      throw new Error('Invalid value for confidence_threshold: must be between 0 and 1');
+    }
+
+    return condition.value === undefined ? { type } : { type, value: condition.value as number };
+  });
+
+  return { mode, conditions };
+}
+
+export function evaluateTerminationPolicy(policy: TerminationPolicy, context: TerminationContext): TerminationStatus {
+  const results = policy.conditions.map(condition => evaluateCondition(condition, context));
+  const passed = results.filter(result => result.passed);
+  const failed = results.filter(result => !result.passed);
+  const shouldTerminate = results.length > 0 && (policy.mode === 'all' ? failed.length === 0 : passed.length > 0);
+
+  return {
+    shouldTerminate,
+    reason: shouldTerminate ? passed.map(result => result.detail).join('; ') : 'Continue reasoning',
+    mode: policy.mode,
+    passed,
+    failed,
+  };
+}
+
+function evaluateCondition(condition: TerminationCondition, context: TerminationContext): TerminationConditionResult {
+  switch (condition.type) {
+    case 'max_depth': {
+      const limit = condition.value ?? context.maxDepth;
+      return result(condition, context.deepestAtom >= limit, `Deepest atom at depth ${context.deepestAtom} of ${limit}`);
+    }
+    case 'confidence_threshold': {
+      const threshold = condition.value ?? context.conclusionThreshold;
+      const strongest = Math.max(0, ...context.verifiedConclusions.map(conclusion => conclusion.confidence));
+      return result(condition, strongest >= threshold,
+        `Strongest verified conclusion at ${formatPercent(strongest)}, threshold ${formatPercent(threshold)}`);
+    }
+    case 'min_verifications': {
+      const required = condition.value!;
+      const most = Math.max(0, ...context.verifiedConclusions.map(conclusion => conclusion.independentVerifications));
+      return result(condition, context.verifiedConclusions.length > 0 && most >= required,
+        `Best-verified conclusion has ${most} of ${required} independent verifications`);
+    }
+    case 'max_atoms': {
+      const limit = condition.value!;
+      return result(condition, context.atomsCount >= limit, `${context.atomsCount} of ${limit} atoms used`);
+    }
+    case 'time_budget': {
+      const budget = condition.value!;
+      const elapsed = context.startedAt === null ? 0 : (context.now - context.startedAt) / 1000;
+      return result(condition, context.startedAt !== null && elapsed >= budget,
+        `${elapsed.toFixed(1)}s of ${budget}s budget elapsed`);
+    }
+    case 'no_new_atoms': {
+      const steps = condition.value!;
+      return result(condition, context.stepsSinceNewAtom >= steps,
+        `${context.stepsSinceNewAtom} of ${steps} steps without a new atom`);
+    }
+    case 'hypotheses_resolved': {
+      const unresolved = context.unresolvedHypotheses;
+      return result(condition, context.hypothesesCount > 0 && unresolved.length === 0,
+        context.hypothesesCount === 0
+          ? 'No hypotheses yet'
+          : unresolved.length === 0 ? 'All hypotheses resolved' : `Unresolved hypotheses: ${unresolved.join(', ')}`);
+    }
+  }
+}
+
+function result(condition: TerminationCondition, passed: boolean, detail: string): TerminationConditionResult {
+  return { ...condition, passed, detail };
+}
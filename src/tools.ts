@@ -0,0 +1,489 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ToolName } from './config.js';
+
+const AOT_TOOL: Tool = {
+  name: "AoT",
+  description: `Atom of Thoughts (AoT) is a tool for solving complex problems by decomposing them into independent, reusable atomic units of thought.
+Unlike traditional sequential thinking, this tool enables more powerful problem solving by allowing atomic units of thought to form dependencies with each other.
+
+When to use:
+- Solving problems requiring complex reasoning
+- Generating hypotheses that need verification from multiple perspectives
+- Deriving high-confidence conclusions in scenarios where accuracy is crucial
+- Minimizing logical errors in critical tasks
+- Decision-making requiring multiple verification steps
+
+Atom types:
+- premise: Basic assumptions or given information for problem solving
+- reasoning: Logical reasoning process based on other atoms
+- hypothesis: Proposed solutions or intermediate conclusions
+- verification: Process to evaluate the validity of other atoms (especially hypotheses)
+- conclusion: Verified hypotheses or final problem solutions
+
+Parameter descriptions:
+- atomId: Unique identifier for the atom (e.g., 'A1', 'H2')
+- content: Actual content of the atom
+- atomType: Type of atom (one of: premise, reasoning, hypothesis, verification, conclusion)
+- dependencies: List of IDs of other atoms this atom depends on (must not create a cycle)
+- confidence: Confidence level of this atom (value between 0-1)
+- isVerified: Whether this atom has been verified
+- depth: Depth level of this atom (in the decomposition-contraction process)
+- verdict: Outcome of a verification atom (confirmed, refuted, inconclusive). A refutation rejects the checked atoms, lowers their confidence and blocks contraction
+- relations: Typed relations to other atoms (supports, contradicts, refines); conflicting atoms are reported from contradicts relations
+- sessionId: Reasoning session to use (optional, defaults to the active session)
+- decompositionId: Open decomposition to add the atom to (optional, defaults to the most recently started decomposition)
+
+Additional features:
+1. Decomposition-Contraction mechanism: 
+   - Decompose atoms into smaller sub-atoms and contract back after verification
+   - startDecomposition(atomId): Start atom decomposition
+   - addToDecomposition(decompositionId, atomId): Add sub-atom to decomposition
+   - completeDecomposition(decompositionId): Complete decomposition process
+   - Decomposing a sub-atom of an open decomposition nests the new decomposition below it; nested decompositions contract bottom-up
+   - abortDecomposition(decompositionId): Abandon a decomposition and the open decompositions nested below it
+
+2. Confidence propagation:
+   - The stated confidence of each atom is combined with the confidence of its dependencies (weakest link by default)
+   - Responses report both statedConfidence and propagatedConfidence, plus the dependent atoms whose propagated confidence changed
+
+3. Revisions and retraction:
+   - Re-submitting an existing atomId with different content, type, dependencies or confidence creates a new version of the atom
+   - Revising or retracting an atom un-verifies everything that rests on it and flags those atoms for re-verification
+   - Responses list the affected atoms in invalidatedAtoms
+
+4. Automatic termination mechanism:
+   - By default terminate when reaching maximum depth or finding a verified conclusion with at least 90% confidence
+   - Each session can set its own termination policy with the set_termination_policy command of atomcommands
+   - getTerminationStatus(): Return termination status, reason and the conditions that passed and failed
+   - getBestConclusion(): Return highest confidence conclusion
+
+Usage method:
+1. Understand the problem and define necessary premise atoms
+2. Create reasoning atoms based on premises
+3. Create hypothesis atoms based on reasoning
+4. Create verification atoms to verify hypotheses
+5. Derive conclusion atoms based on verified hypotheses
+6. Use atom decomposition to explore deeper when necessary
+7. Present the high-confidence conclusion atom as the final answer`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      atomId: {
+        type: "string",
+        description: "Unique identifier for the atom"
+      },
+      content: {
+        type: "string",
+        description: "Actual content of the atom"
+      },
+      atomType: {
+        type: "string",
+        enum: ["premise", "reasoning", "hypothesis", "verification", "conclusion"],
+        description: "Type of atom"
+      },
+      dependencies: {
+        type: "array",
+        items: {
+          type: "string"
+        },
+        description: "List of IDs of other atoms this atom depends on"
+      },
+      confidence: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description: "Confidence level of this atom (value between 0-1)"
+      },
+      isVerified: {
+        type: "boolean",
+        description: "Whether this atom has been verified"
+      },
+      depth: {
+        type: "number",
+        description: "Depth level of this atom in the decomposition-contraction mechanism"
+      },
+      verdict: {
+        type: "string",
+        enum: ["confirmed", "refuted", "inconclusive"],
+        description: "Outcome of a verification atom for the atoms it depends on (optional, verification atoms only)"
+      },
+      relations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: ["supports", "contradicts", "refines"]
+            },
+            target: {
+              type: "string"
+            }
+          },
+          required: ["type", "target"]
+        },
+        description: "Typed relations to other atoms, kept alongside plain dependencies (optional)"
+      },
+      sessionId: {
+        type: "string",
+        description: "Reasoning session to add the atom to (optional, defaults to the active session)"
+      },
+      decompositionId: {
+        type: "string",
+        description: "Open decomposition to add the atom to (optional, defaults to the most recently started one)"
+      }
+    },
+    required: ["atomId", "content", "atomType", "dependencies", "confidence"]
+  }
+};
+
+// Atom properties shared by AoT and the items of AoT-batch; the session is chosen once per batch
+const { sessionId: _sessionId, ...AOT_ATOM_PROPERTIES } = AOT_TOOL.inputSchema.properties as Record<string, object>;
+
+const AOT_BATCH_TOOL: Tool = {
+  name: "AoT-batch",
+  description: `Submit several Atom of Thoughts atoms in a single call.
+The batch is validated as a unit and either committed as a whole or rejected without changing the graph.
+
+When to use:
+- Laying down many premises or a whole reasoning chain at once
+- Avoiding half-built graphs when one atom of a group turns out to be invalid
+
+How it works:
+- Atoms may reference each other in any order; they are stored so that every atom comes after the batch atoms it depends on
+- IDs, dependencies, relations and cycles are checked for the whole batch before anything is stored
+- A rejected batch returns an errors list with the index, atomId and error of every invalid atom
+- A committed batch returns the result of every atom plus the termination status and best conclusion after the batch
+
+Parameters explained:
+- atoms: Atoms to submit, each with the same fields as the AoT tool
+- engine: Graph to add the atoms to (full or light; defaults to full)
+- sessionId: Reasoning session to use (optional, defaults to the active session)`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      atoms: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: AOT_ATOM_PROPERTIES,
+          required: ["atomId", "content", "atomType", "dependencies", "confidence"]
+        },
+        description: "Atoms to submit together"
+      },
+      engine: {
+        type: "string",
+        enum: ["full", "light"],
+        description: "Graph to add the atoms to (defaults to the full AoT graph)"
+      },
+      sessionId: {
+        type: "string",
+        description: "Reasoning session to add the atoms to (optional, defaults to the active session)"
+      }
+    },
+    required: ["atoms"]
+  }
+};
+
+const AOT_LIGHT_TOOL: Tool = {
+  name: "AoT-light",
+  description: `A lightweight version of Atom of Thoughts (AoT) designed for faster processing and quicker results.
+This streamlined version sacrifices some depth of analysis for speed, making it ideal for time-sensitive reasoning tasks.
+
+When to use:
+- Quick brainstorming sessions requiring atomic thought organization
+- Time-sensitive problem solving where speed is prioritized over exhaustive analysis
+- Simpler reasoning tasks that don't require deep decomposition
+- Initial exploration before using the full AoT for deeper analysis
+- Learning or demonstration purposes where response time is important
+
+Key differences from full AoT:
+- Lower maximum depth (3 instead of 5) for faster processing
+- Simplified verification process
+- Immediate conclusion suggestion for high-confidence hypotheses
+- Reduced computational overhead and response payload
+- Optimized for speed rather than exhaustive analysis
+
+Atom types and parameters are the same as the full AoT tool, including the optional sessionId.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      atomId: {
+        type: "string",
+        description: "Unique identifier for the atom"
+      },
+      content: {
+        type: "string",
+        description: "Actual content of the atom"
+      },
+      atomType: {
+        type: "string",
+        enum: ["premise", "reasoning", "hypothesis", "verification", "conclusion"],
+        description: "Type of atom"
+      },
+      dependencies: {
+        type: "array",
+        items: {
+          type: "string"
+        },
+        description: "List of IDs of other atoms this atom depends on"
+      },
+      confidence: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description: "Confidence level of this atom (value between 0-1)"
+      },
+      isVerified: {
+        type: "boolean",
+        description: "Whether this atom has been verified"
+      },
+      depth: {
+        type: "number",
+        description: "Depth level of this atom (optional, defaults to 0)"
+      },
+      verdict: {
+        type: "string",
+        enum: ["confirmed", "refuted", "inconclusive"],
+        description: "Outcome of a verification atom for the atoms it depends on (optional, verification atoms only)"
+      },
+      relations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: ["supports", "contradicts", "refines"]
+            },
+            target: {
+              type: "string"
+            }
+          },
+          required: ["type", "target"]
+        },
+        description: "Typed relations to other atoms, kept alongside plain dependencies (optional)"
+      },
+      sessionId: {
+        type: "string",
+        description: "Reasoning session to add the atom to (optional, defaults to the active session)"
+      }
+    },
+    required: ["atomId", "content", "atomType", "dependencies", "confidence"]
+  }
+};
+
+// Command handler to expose decomposition-contraction functionality
+const ATOM_COMMANDS_TOOL: Tool = {
+  name: "atomcommands",
+  description: `A command tool to control the decomposition-contraction mechanism and automatic termination of Atom of Thoughts.
+  
+Use this tool to access advanced features of AoT:
+
+1. Decomposition (decompose): Decompose a specified atom into smaller sub-atoms
+2. Complete decomposition (complete_decomposition): Complete an ongoing decomposition process
+3. Check termination status (termination_status): Check the termination status of the current AoT process and which policy conditions passed or failed
+4. Get best conclusion (best_conclusion): Get the verified conclusion with the highest confidence
+5. Change settings (set_max_depth): Change the maximum depth limit
+6. Session management (create_session, list_sessions, switch_session, reset_session, delete_session): Run several independent reasoning problems side by side
+7. Persistence (save, load, list_saved): Store the graph of a session under a name and load it back later (requires a storage directory)
+8. Export (export): Render the whole graph as Mermaid, Graphviz DOT, canonical JSON or a Markdown report
+9. Graph queries (topological_order, ancestors, descendants): Read the dependency structure back
+10. Confidence propagation (set_propagation_strategy): Choose how confidence flows from dependencies to dependent atoms (min, product, noisy_or, average, none)
+11. Revisions (retract, history): Withdraw an atom or list all versions of an atom
+12. Atom queries (get_atom, list_atoms, search_atoms): Read atoms back, filtered and paged
+13. Justification (explain): Proof tree of the best conclusion or any other atom, with its weakest link and unverified assumptions
+14. Termination policy (set_termination_policy): Choose when reasoning should stop, per session
+15. Decomposition tree (abort_decomposition, list_decompositions): Abandon a decomposition or show nested decompositions with the verification progress of each
+16. Promotion (promote): Re-validate the AoT-light graph of a session and import it into the full AoT graph of the same session
+17. Configuration (get_config): Show the effective server configuration and where each setting came from
+18. Reasoning lint (lint): Check the graph for weak or malformed reasoning and list the findings per atom
+19. Statistics (stats): Counts by atom type, hypothesis verification coverage, a depth histogram, decompositions and contractions, the confidence along the best conclusion's chain and the time between atoms
+20. Competing hypotheses (declare_alternatives, list_alternatives): Declare hypotheses as mutually exclusive answers to one question, keep their confidences consistent, show the leader and demote the others once one is verified
+21. Checkpoints and branches (checkpoint, list_checkpoints, restore, fork, diff): Save a named point of a session to return to, fork the session into a branch where alternative reasoning continues in isolation, and compare checkpoints or branches atom by atom
+
+Graph commands run against the full AoT graph by default; pass engine "light" to run them against the AoT-light graph instead (decomposition commands need the full engine).
+
+Command descriptions:
+- command: Command to execute (decompose, complete_decomposition, termination_status, best_conclusion, set_max_depth, create_session, list_sessions, switch_session, reset_session, delete_session, save, load, list_saved, export, topological_order, ancestors, descendants, set_propagation_strategy, retract, history, get_atom, list_atoms, search_atoms, explain, set_termination_policy, abort_decomposition, list_decompositions, promote, get_config, lint, stats, declare_alternatives, list_alternatives, checkpoint, list_checkpoints, restore, fork, diff)
+- atomId: Atom ID to use with the command (required for decompose, ancestors, descendants, retract, history and get_atom commands; optional for explain, which defaults to the best conclusion, and for lint, which defaults to every atom)
+- decompositionId: ID of the decomposition process (only required for complete_decomposition and abort_decomposition commands)
+- maxDepth: Maximum depth value to set (only required for set_max_depth command)
+- engine: Graph to run the command against (full or light; defaults to full)
+- sessionId: Session to run the command against (defaults to the active session; required for switch_session and delete_session, optional name for create_session, the session to branch off for fork)
+- name: Name of the stored graph (optional for save, defaults to the session ID; required for load), of the checkpoint (optional for checkpoint, defaults to checkpoint_N; required for restore) or of the new session created by fork (optional, defaults to session_N)
+- from, to: Graphs the diff command compares, each a checkpoint of the session or the ID of another session such as a fork; checkpoints are looked up first. from is required, to defaults to the current graph of the session. The diff lists added, removed and changed atoms, verification flips and whether the best conclusion differs
+- format: Output format of the export command (mermaid, dot, json, markdown; defaults to markdown)
+- strategy: Confidence propagation strategy (only required for set_propagation_strategy command)
+- filter: Criteria for list_atoms and search_atoms (atomType, isVerified, minDepth, maxDepth, minConfidence, maxConfidence, decompositionId)
+- query: Search terms that must all appear in the atom content (only required for search_atoms command)
+- offset, limit: Paging for list_atoms and search_atoms (defaults to 0 and 20, limit at most 100)
+- policy: Termination policy for set_termination_policy, or "default" to restore the default policy. An object with mode (any or all) and conditions, each a type with an optional value:
+  - max_depth: An atom reached the maximum depth (value overrides the session maximum depth)
+  - confidence_threshold: A verified conclusion reached the confidence in value (defaults to the configured conclusion threshold, 0.9 unless changed)
+  - min_verifications: A verified conclusion was confirmed by at least value independent verification atoms
+  - max_atoms: The graph holds at least value atoms
+  - time_budget: At least value seconds passed since the first atom
+  - no_new_atoms: The last value submitted atoms only revised existing atoms
+  - hypotheses_resolved: Every hypothesis has been verified or refuted
+- atomIds: Hypotheses that are mutually exclusive alternatives (required for declare_alternatives, at least two; each hypothesis can belong to one set)
+- setId: ID of a hypothesis set (optional for declare_alternatives, where an existing ID replaces that set, and for list_alternatives)
+- question: The question the alternatives answer (optional for declare_alternatives)
+- consistency: How declare_alternatives keeps the set consistent. normalize (default) scales the confidences of the alternatives down whenever they add up to more than 1; warn leaves them alone and reports a warning. Either way, once an alternative is verified the others are demoted: their confidence is lowered as if refuted by the verification that confirmed it
+- severity: Lowest severity the lint command reports (error, warning, info; defaults to info). The lint rules are:
+  - unverified_conclusion (error): A conclusion neither rests on nor is confirmed by any verification atom
+  - rests_on_rejected (error): An atom depends on an atom that a verification refuted
+  - overconfident (warning): An atom claims a higher confidence than every dependency it rests on
+  - unverified_hypothesis (warning): A hypothesis has no verification atom checking it
+  - unused_premise (info): No other atom depends on or relates to a premise
+  - needs_reverification (info): Something an atom rests on was revised or retracted since it was verified`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      command: {
+        type: "string",
+        enum: ["decompose", "complete_decomposition", "termination_status", "best_conclusion", "set_max_depth", "create_session", "list_sessions", "switch_session", "reset_session", "delete_session", "save", "load", "list_saved", "export", "topological_order", "ancestors", "descendants", "set_propagation_strategy", "retract", "history", "get_atom", "list_atoms", "search_atoms", "explain", "set_termination_policy", "abort_decomposition", "list_decompositions", "promote", "get_config", "lint", "stats", "declare_alternatives", "list_alternatives", "checkpoint", "list_checkpoints", "restore", "fork", "diff"],
+        description: "Command to execute"
+      },
+      atomId: {
+        type: "string",
+        description: "Atom ID to use with the command"
+      },
+      decompositionId: {
+        type: "string",
+        description: "ID of the decomposition process to complete or abort"
+      },
+      maxDepth: {
+        type: "number",
+        description: "Maximum depth value to set"
+      },
+      engine: {
+        type: "string",
+        enum: ["full", "light"],
+        description: "Graph to run the command against (defaults to the full AoT graph)"
+      },
+      sessionId: {
+        type: "string",
+        description: "Session ID to use with the command"
+      },
+      name: {
+        type: "string",
+        description: "Name of a stored graph, a checkpoint or a forked session"
+      },
+      from: {
+        type: "string",
+        description: "Checkpoint or session the diff command compares from"
+      },
+      to: {
+        type: "string",
+        description: "Checkpoint or session the diff command compares to (defaults to the current graph)"
+      },
+      format: {
+        type: "string",
+        enum: ["mermaid", "dot", "json", "markdown"],
+        description: "Output format of the export command"
+      },
+      strategy: {
+        type: "string",
+        enum: ["min", "product", "noisy_or", "average", "none"],
+        description: "Confidence propagation strategy"
+      },
+      filter: {
+        type: "object",
+        properties: {
+          atomType: {
+            type: "string",
+            enum: ["premise", "reasoning", "hypothesis", "verification", "conclusion"]
+          },
+          isVerified: { type: "boolean" },
+          minDepth: { type: "number" },
+          maxDepth: { type: "number" },
+          minConfidence: { type: "number" },
+          maxConfidence: { type: "number" },
+          decompositionId: { type: "string" }
+        },
+        description: "Criteria for list_atoms and search_atoms"
+      },
+      query: {
+        type: "string",
+        description: "Search terms for search_atoms"
+      },
+      offset: {
+        type: "number",
+        description: "Number of matching atoms to skip"
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of atoms to return"
+      },
+      policy: {
+        oneOf: [
+          {
+            type: "string",
+            enum: ["default"]
+          },
+          {
+            type: "object",
+            properties: {
+              mode: {
+                type: "string",
+                enum: ["any", "all"]
+              },
+              conditions: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    type: {
+                      type: "string",
+                      enum: ["max_depth", "confidence_threshold", "min_verifications", "max_atoms", "time_budget", "no_new_atoms", "hypotheses_resolved"]
+                    },
+                    value: { type: "number" }
+                  },
+                  required: ["type"]
+                }
+              }
+            },
+            required: ["conditions"]
+          }
+        ],
+        description: "Termination policy for set_termination_policy"
+      },
+      severity: {
+        type: "string",
+        enum: ["error", "warning", "info"],
+        description: "Lowest severity reported by the lint command"
+      },
+      atomIds: {
+        type: "array",
+        items: {
+          type: "string"
+        },
+        description: "Mutually exclusive hypotheses for declare_alternatives"
+      },
+      setId: {
+        type: "string",
+        description: "ID of a hypothesis set"
+      },
+      question: {
+        type: "string",
+        description: "Question the alternatives of a hypothesis set answer"
+      },
+      consistency: {
+        type: "string",
+        enum: ["normalize", "warn"],
+        description: "Whether declare_alternatives normalises the confidences of the alternatives or only warns when they add up to more than 1"
+      }
+    },
+    required: ["command"]
+  }
+};
+
+// Every tool the server can offer; the tools setting decides which are listed and callable
+export const TOOLS: Record<ToolName, Tool> = {
+  'AoT': AOT_TOOL,
+  'AoT-light': AOT_LIGHT_TOOL,
+  'AoT-batch': AOT_BATCH_TOOL,
+  'atomcommands': ATOM_COMMANDS_TOOL,
+};
+
@@ -0,0 +1,228 @@
+import { PropagationStrategy } from './confidence.js';
+import { TerminationPolicy, TerminationStatus } from './termination.js';
+
+export type AtomType = 'premise' | 'reasoning' | 'hypothesis' | 'verification' | 'conclusion';
+
+export type VerificationVerdict = 'confirmed' | 'refuted' | 'inconclusive';
+
+export type RelationType = 'supports' | 'contradicts' | 'refines';
+
+// A typed link to another atom, kept separately from plain dependencies
+export interface AtomRelation {
+  type: RelationType;
+  target: string;
+}
+
+export interface AtomData {
+  atomId: string;
+  content: string;
+  atomType: AtomType;
+  dependencies: string[];
+  confidence: number;
+  created: number;
+  isVerified: boolean;
+  depth?: number;
+  version?: number; // Incremented each time the atom is revised or retracted
+  isRetracted?: boolean;
+  needsReverification?: boolean; // Set when something this atom rests on was revised or retracted
+  verdict?: VerificationVerdict; // Only for verification atoms
+  isRejected?: boolean; // Set when a verification atom refuted this atom
+  relations?: AtomRelation[];
+}
+
+// An atom as submitted to an engine; the engine fills in timestamps, versions and depth
+export interface AtomInput {
+  atomId: string;
+  content: string;
+  atomType: AtomType;
+  dependencies: string[];
+  confidence: number;
+  isVerified?: boolean;
+  depth?: number;
+  verdict?: VerificationVerdict;
+  relations?: AtomRelation[];
+  decompositionId?: string; // Open decomposition to add the atom to instead of the current one
+  created?: number;
+}
+
+export interface ConclusionSummary {
+  atomId: string;
+  content: string;
+  confidence: number;
+}
+
+export interface ConfidenceUpdate {
+  atomId: string;
+  previous: number;
+  current: number;
+}
+
+// How a hypothesis set keeps the confidences of its alternatives summing to at most 1
+export type AlternativesConsistency = 'normalize' | 'warn';
+
+// Hypotheses declared as mutually exclusive answers to the same question
+export interface HypothesisSet {
+  setId: string;
+  question?: string;
+  hypotheses: string[];
+  consistency: AlternativesConsistency;
+  resolvedBy?: string; // Verified alternative the others were demoted for
+  statedConfidences?: Record<string, number>; // Confidences the alternatives were submitted with, before the set scaled them
+}
+
+export type AlternativeStatus = 'open' | 'verified' | 'demoted' | 'rejected' | 'retracted';
+
+// A hypothesis set as reported to clients, with its current leader
+export interface HypothesisSetStatus extends HypothesisSet {
+  alternatives: Array<{ atomId: string; confidence: number; status: AlternativeStatus }>;
+  leader: string | null; // The verified alternative, otherwise the most confident one still standing
+  totalConfidence: number; // Of the alternatives still standing
+  isConsistent: boolean;
+  warning: string | null;
+}
+
+// Outcome of adding an atom. AoT-light reports only the fields that are not marked optional.
+export interface AtomResult {
+  atomId: string;
+  atomType: AtomType;
+  isVerified: boolean;
+  confidence: number;
+  statedConfidence?: number;
+  propagatedConfidence: number | null;
+  propagationStrategy?: PropagationStrategy;
+  propagationUpdates?: ConfidenceUpdate[];
+  version?: number;
+  verdict?: VerificationVerdict;
+  rejectedAtoms: string[];
+  invalidatedAtoms: string[];
+  depth?: number;
+  atomsCount: number;
+  dependentAtoms?: string[];
+  conflictingAtoms?: string[];
+  verifiedConclusions?: string[];
+  terminationStatus?: TerminationStatus;
+  bestConclusion: ConclusionSummary | null;
+  currentDecomposition?: string | null;
+  addedToDecomposition?: string | null;
+  hypothesisSets?: HypothesisSetStatus[]; // Sets that contain the atom or one it verified
+}
+
+export interface BatchError {
+  index: number | null; // Position in the batch, null for problems with the batch as a whole
+  atomId: string | null;
+  error: string;
+}
+
+// Outcome of adding a batch of atoms, which are either all committed or all rejected
+export type BatchResult = {
+  status: 'committed';
+  atomsCount: number;
+  results: Array<Pick<AtomResult, 'atomId' | 'atomType' | 'isVerified' | 'confidence' | 'propagatedConfidence' | 'depth' | 'version' | 'rejectedAtoms' | 'invalidatedAtoms'>>;
+  terminationStatus: TerminationStatus;
+  bestConclusion: ConclusionSummary | null;
+  currentDecomposition: string | null;
+} | {
+  status: 'rejected';
+  errors: BatchError[];
+};
+
+// Criteria for listing and searching atoms; every given criterion must match
+export interface AtomFilter {
+  atomType?: AtomType;
+  isVerified?: boolean;
+  minDepth?: number;
+  maxDepth?: number;
+  minConfidence?: number;
+  maxConfidence?: number;
+  decompositionId?: string;
+  query?: string; // Case-insensitive search terms, all of which must appear in the content
+}
+
+export type JustificationStatus = 'verified' | 'unverified' | 'rejected' | 'retracted' | 'needs_reverification';
+
+// One atom in a justification tree, with the atoms it depends on as children
+export interface JustificationNode {
+  atomId: string;
+  atomType: AtomType;
+  content: string;
+  confidence: number;
+  propagatedConfidence: number;
+  status: JustificationStatus;
+  verifiedBy: string[]; // Verification atoms that confirmed this atom
+  dependencies: JustificationNode[];
+  repeated?: boolean; // Already expanded elsewhere in the tree, children omitted
+}
+
+export interface Explanation {
+  atomId: string;
+  tree: JustificationNode;
+  weakestLink: { atomId: string; confidence: number } | null; // Lowest-confidence ancestor
+  unverifiedAssumptions: string[]; // Ancestors that are not verified
+  premises: string[]; // Ancestors without dependencies of their own
+}
+
+export interface DecompositionState {
+  originalAtomId: string;
+  subAtoms: string[];
+  isCompleted: boolean;
+  isAborted?: boolean;
+  isContracted?: boolean;
+  parentDecompositionId?: string; // Decomposition the original atom is a sub-atom of
+}
+
+export type DecompositionStatus = 'active' | 'completed' | 'contracted' | 'aborted';
+
+// A decomposition with its progress and the decompositions nested below it
+export interface DecompositionNode {
+  decompositionId: string;
+  originalAtomId: string;
+  status: DecompositionStatus;
+  isCurrent: boolean;
+  subAtoms: string[];
+  progress: { verified: number; rejected: number; total: number };
+  children: DecompositionNode[];
+}
+
+// Serializable state of a single AtomOfThoughtsServer
+export interface AtomGraphSnapshot {
+  atoms: Record<string, AtomData>;
+  atomOrder: string[];
+  verifiedConclusions: string[];
+  decompositionStates: Record<string, DecompositionState>;
+  maxDepth: number;
+  currentDecompositionId: string | null;
+  decompositionStack?: string[];
+  propagationStrategy?: PropagationStrategy;
+  atomHistory?: Record<string, AtomData[]>;
+  terminationPolicy?: TerminationPolicy;
+  stepsSinceNewAtom?: number;
+  hypothesisSets?: Record<string, HypothesisSet>;
+}
+
+// Serializable state of a reasoning session (full and light graphs)
+export interface SessionSnapshot {
+  sessionId: string;
+  created: number;
+  savedAt: number;
+  sequence: number; // Last journal entry already applied to this snapshot
+  full: AtomGraphSnapshot;
+  light: AtomGraphSnapshot;
+  checkpoints?: Record<string, Checkpoint>;
+  forkedFrom?: string; // Session this one was forked from
+}
+
+// Named copy of both graphs of a session, taken to restore or compare against later
+export interface Checkpoint {
+  name: string;
+  created: number;
+  full: AtomGraphSnapshot;
+  light: AtomGraphSnapshot;
+}
+
+// A single recorded tool call that changed a session
+export interface JournalEntry {
+  sequence: number;
+  timestamp: number;
+  tool: string;
+  arguments: Record<string, unknown>;
+}
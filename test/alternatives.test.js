@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { beforeEach, test } from 'node:test';
+import { AtomOfThoughtsServer, engineSettings } from '../build/lib.js';
+import { QUIET_CONFIG, atom } from './helpers.js';
+
+let graph;
+
+beforeEach(() => {
+  graph = new AtomOfThoughtsServer(5, engineSettings(QUIET_CONFIG));
+  graph.addAtom(atom('P1', 'premise', [], 0.9));
+  graph.addAtom(atom('H1', 'hypothesis', ['P1'], 0.9));
+  graph.addAtom(atom('H2', 'hypothesis', ['P1'], 0.5));
+  graph.addAtom(atom('R1', 'reasoning', ['H1'], 0.6));
+  graph.declareAlternatives(['H1', 'H2'], { setId: 'S' });
+});
+
+test('normalising a set leaves the stated confidences alone', () => {
+  assert.ok(Math.abs(graph.getAtom('H1').confidence - 0.9 / 1.4) < 1e-9);
+  assert.ok(Math.abs(graph.getAtom('H2').confidence - 0.5 / 1.4) < 1e-9);
+  assert.deepEqual(graph.listHypothesisSets()[0].statedConfidences, { H1: 0.9, H2: 0.5 });
+});
+
+test('resubmitting a normalised alternative unchanged is not a revision', () => {
+  const result = graph.addAtom(atom('H1', 'hypothesis', ['P1'], 0.9));
+
+  assert.equal(result.version, 1);
+  assert.deepEqual(result.invalidatedAtoms, []);
+  assert.ok(Math.abs(graph.getAtom('H1').confidence - 0.9 / 1.4) < 1e-9);
+  assert.ok(Math.abs(graph.getAtom('H2').confidence - 0.5 / 1.4) < 1e-9);
+});
+
+test('revising an alternative renormalises the set from the new stated confidence', () => {
+  const result = graph.addAtom(atom('H1', 'hypothesis', ['P1'], 0.5));
+
+  assert.equal(result.version, 2);
+  assert.equal(graph.getAtom('H1').confidence, 0.5);
+  assert.equal(graph.getAtom('H2').confidence, 0.5);
+});
+
+test('retracting the confirmation of the winner undoes the demotion of the others', () => {
+  graph.addAtom(atom('V1', 'verification', ['H1'], 0.9, { verdict: 'confirmed' }));
+  assert.ok(Math.abs(graph.getAtom('H2').confidence - (0.5 / 1.4) * 0.1) < 1e-9);
+  assert.equal(graph.listHypothesisSets()[0].resolvedBy, 'H1');
+
+  graph.retractAtom('V1');
+
+  const [set] = graph.listHypothesisSets();
+  assert.equal(set.resolvedBy, undefined);
+  assert.deepEqual(set.alternatives.map(alternative => alternative.status), ['open', 'open']);
+  assert.ok(Math.abs(graph.getAtom('H2').confidence - 0.5 / 1.4) < 1e-9);
+});
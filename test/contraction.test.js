@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AtomOfThoughtsServer, engineSettings } from '../build/lib.js';
+import { QUIET_CONFIG, atom } from './helpers.js';
+
+test('verifying the sub-atom of a nested decomposition contracts it and then its parent', () => {
+  const graph = new AtomOfThoughtsServer(5, engineSettings(QUIET_CONFIG));
+  const contractions = [];
+  graph.on('contractionPerformed', event => contractions.push(event.atomId));
+
+  graph.addAtom(atom('P1', 'premise', [], 0.9));
+  graph.addAtom(atom('H1', 'hypothesis', ['P1'], 0.8));
+  const parent = graph.startDecomposition('H1');
+  graph.addAtom(atom('S1', 'reasoning', ['H1'], 0.8));
+  const child = graph.startDecomposition('S1');
+  graph.addAtom(atom('S2', 'reasoning', ['S1'], 0.8));
+  graph.completeDecomposition(child);
+  graph.completeDecomposition(parent);
+  assert.deepEqual(contractions, []);
+
+  graph.addAtom(atom('V1', 'verification', ['S2'], 0.9, { verdict: 'confirmed' }));
+
+  const states = graph.toSnapshot().decompositionStates;
+  assert.equal(states[child].isContracted, true);
+  assert.equal(states[parent].isContracted, true);
+  assert.deepEqual(contractions, ['S1', 'H1']);
+  assert.equal(graph.getAtom('H1').isVerified, true);
+});
@@ -0,0 +1,9 @@
+import { DEFAULT_CONFIG, logger } from '../build/lib.js';
+
+// Keep test output to the test report
+logger.configure({ level: 'error' });
+
+export const QUIET_CONFIG = { ...DEFAULT_CONFIG, logging: { ...DEFAULT_CONFIG.logging, atoms: false } };
+
+export const atom = (atomId, atomType, dependencies, confidence, extra = {}) =>
+  ({ atomId, content: `${atomType} ${atomId}`, atomType, dependencies, confidence, ...extra });
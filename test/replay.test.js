@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { SessionManager } from '../build/lib.js';
+import { QUIET_CONFIG, atom } from './helpers.js';
+
+const entry = (sequence, tool, args) => ({ sequence, timestamp: 1700000000000 + sequence, tool, arguments: args });
+
+test('a failing call in the middle of a recording is reported and the replay carries on', () => {
+  const responses = [];
+  const session = new SessionManager(QUIET_CONFIG).replay({
+    sequence: 0,
+    entries: [
+      entry(1, 'AoT', atom('P1', 'premise', [], 0.9)),
+      entry(2, 'atomcommands', { command: 'decompose', atomId: 'NOPE' }),
+      entry(3, 'AoT', atom('H1', 'hypothesis', ['P1'], 0.7)),
+    ],
+  }, (replayed, response) => responses.push({ sequence: replayed.sequence, response }));
+
+  assert.deepEqual(responses.map(({ sequence, response }) => [sequence, !!response.isError]), [[1, false], [2, true], [3, false]]);
+  assert.equal(JSON.parse(responses[1].response.content[0].text).error, 'Atom with ID NOPE not found');
+  assert.deepEqual(session.full.getAtomIds(), ['P1', 'H1']);
+  assert.equal(session.sequence, 3);
+});